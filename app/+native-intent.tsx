@@ -0,0 +1,25 @@
+import * as Linking from 'expo-linking';
+
+// Rewrite secretary://record?tag=…&duration=… onto the main screen, which starts
+// recording when it sees the `record` param. The timestamp makes repeat links
+// (e.g. tapping the same NFC tag twice) register as a new request.
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  try {
+    const { hostname, path: linkPath, queryParams } = Linking.parse(path);
+    const target = hostname || linkPath?.replace(/^\/+|\/+$/g, '');
+
+    if (target !== 'record') {
+      return path;
+    }
+
+    const query = Object.entries({ ...queryParams, record: String(Date.now()) })
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&');
+
+    return `/?${query}`;
+  } catch (error) {
+    console.error('Failed to handle deep link:', error);
+    return path;
+  }
+}
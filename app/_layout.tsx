@@ -19,6 +19,7 @@ import Toast from 'react-native-toast-message';
 import { Colors } from '@/constants/Colors';
 import { queueService } from '@/services/queue';
 import { syncService } from '@/services/sync';
+import { recoveryService } from '@/services/recovery';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { toastConfig } from '@/components/CustomToast';
 
@@ -81,6 +82,13 @@ function RootLayoutNav() {
             headerShown: false,
           }} 
         />
+        <Stack.Screen 
+          name="tasks" 
+          options={{ 
+            presentation: 'modal',
+            headerShown: false,
+          }} 
+        />
         <Stack.Screen name="auth/login" options={{ headerShown: false }} />
         <Stack.Screen name="auth/signup" options={{ headerShown: false }} />
         <Stack.Screen name="auth/forgot-password" options={{ headerShown: false }} />
@@ -104,6 +112,7 @@ export default function RootLayout() {
   useEffect(() => {
     // Initialize services
     queueService.initialize();
+    recoveryService.reconcile();
     syncService.initialize();
     
     return () => {
@@ -1,5 +1,6 @@
-import { StyleSheet, View, Pressable, SectionList, Alert } from 'react-native';
-import { useState, useEffect, useCallback, memo, useMemo } from 'react';
+import { StyleSheet, View, Pressable, SectionList, ScrollView, Alert, AlertButton } from 'react-native';
+import { useState, useEffect, useCallback, memo, useMemo, useRef } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Animated, {
   FadeInDown,
@@ -15,19 +16,34 @@ import Animated, {
 } from 'react-native-reanimated';
 
 import * as Haptics from 'expo-haptics';
+import Toast from 'react-native-toast-message';
 import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { UserAvatar } from '@/components/UserAvatar';
 import { ProcessingStateBadge } from '@/components/ProcessingStateBadge';
 import { RecordingTimer } from '@/components/RecordingTimer';
+import { MarkerLabelModal } from '@/components/MarkerLabelModal';
+import { RetranscribeModal } from '@/components/RetranscribeModal';
+import { SpeakerRenameModal } from '@/components/SpeakerRenameModal';
+import { LiveWaveform, Waveform } from '@/components/Waveform';
 import { IconSymbol } from '@/components/ui/IconSymbol';
 import { recordingService } from '@/services/recordingService';
-import { formatDuration, formatTimeOnly } from '@/utils/helpers';
+import { audioImportService } from '@/services/audioImport';
+import { queueService } from '@/services/queue';
+import {
+  formatDuration,
+  formatRecipeOutput,
+  formatTimeOnly,
+  getSpeakerName,
+  getSpeakers,
+  getTranscriptPassageAt,
+  getTrimmedDuration,
+} from '@/utils/helpers';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors, Spacing, BorderRadius, Typography } from '@/constants/Colors';
 import { useRecording } from '@/hooks/useRecording';
 import { useAuth } from '@/contexts/AuthContext';
-import { Recording } from '@/types';
+import { Recording, RecordingMarker, TranscriptionOverrides } from '@/types';
 import { realtimeService } from '@/services/realtime';
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
@@ -61,15 +77,35 @@ export default function MainScreen() {
   const theme = Colors[colorScheme ?? 'light'];
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
+  const router = useRouter();
+  // Set by the secretary://record deep link, see app/+native-intent.tsx
+  const captureRequest = useLocalSearchParams<{ record?: string; tag?: string; mode?: string; duration?: string }>();
+  const handledCaptureRequest = useRef<string | null>(null);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [isInitialLoading, setIsInitialLoading] = useState(true);
   const [isConnected, setIsConnected] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  // Every tag in use, for the filter chips above the list
+  const allTags = useMemo(
+    () => [...new Set(recordings.flatMap(recording => recording.tags ?? []))].sort(),
+    [recordings]
+  );
+
+  // Drop the filter once no recording has that tag any more
+  useEffect(() => {
+    if (tagFilter && !allTags.includes(tagFilter)) {
+      setTagFilter(null);
+    }
+  }, [tagFilter, allTags]);
 
   // Group recordings by date
   const groupedRecordings = useMemo(() => {
     const groups: { [key: string]: Recording[] } = {};
     
     recordings.forEach(recording => {
+      if (tagFilter && !recording.tags?.includes(tagFilter)) return;
+
       const date = new Date(recording.timestamp);
       const dateKey = date.toDateString(); // e.g., "Mon Dec 25 2023"
       
@@ -86,14 +122,31 @@ export default function MainScreen() {
         title: formatDateHeader(new Date(dateKey)),
         data: groups[dateKey].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       }));
-  }, [recordings]);
+  }, [recordings, tagFilter]);
 
   
   // Recording state
-  const { isRecording, error, startRecording, stopRecording } = useRecording();
+  const {
+    isRecording,
+    isPaused,
+    error,
+    startRecording,
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+    addMarker,
+    labelMarker,
+    subscribeToLevels,
+  } = useRecording();
   const [isSaving, setIsSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [expandedTranscripts, setExpandedTranscripts] = useState<Set<string>>(new Set());
+  // Selected marker per recording, highlighted in the expanded transcript
+  const [activeMarkers, setActiveMarkers] = useState<Record<string, number>>({});
+  const [appendingTo, setAppendingTo] = useState<Recording | null>(null);
+  const [retranscribing, setRetranscribing] = useState<Recording | null>(null);
+  const [renamingSpeaker, setRenamingSpeaker] = useState<{ recording: Recording; speaker: string } | null>(null);
+  const [labelingMarker, setLabelingMarker] = useState<RecordingMarker | null>(null);
   
   // Animation values
   const buttonScale = useSharedValue(1);
@@ -179,6 +232,39 @@ export default function MainScreen() {
     };
   }, [user]);
 
+  // Start recording straight away when opened from secretary://record
+  useEffect(() => {
+    const { record, tag, mode, duration } = captureRequest;
+    if (!record || !user || handledCaptureRequest.current === record) return;
+
+    handledCaptureRequest.current = record;
+    router.setParams({ record: undefined, tag: undefined, mode: undefined, duration: undefined });
+
+    if (isRecording) {
+      Toast.show({
+        type: 'info',
+        text1: 'Already Recording',
+        position: 'top',
+        visibilityTime: 2000,
+      });
+      return;
+    }
+
+    const maxDurationSeconds = duration ? parseInt(duration, 10) : NaN;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    startRecording({
+      tag: tag || mode || undefined,
+      maxDurationSeconds: maxDurationSeconds > 0 ? maxDurationSeconds : undefined,
+    });
+  }, [captureRequest, user, isRecording, startRecording, router]);
+
+  // The append target only applies to the recording it was started for
+  useEffect(() => {
+    if (!isRecording) {
+      setAppendingTo(null);
+    }
+  }, [isRecording]);
+
   const handleDelete = useCallback(async (recording: Recording) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     
@@ -214,13 +300,89 @@ export default function MainScreen() {
     }
   }, []);
 
+  const handleRetranscribe = useCallback(async (overrides: TranscriptionOverrides) => {
+    if (!retranscribing) return;
+    const recording = retranscribing;
+    setRetranscribing(null);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      await queueService.retranscribeRecording(recording, overrides);
+      // No need to refresh - realtime will handle the update
+    } catch (error) {
+      Toast.show({
+        type: 'error',
+        text1: 'Re-transcribe Failed',
+        text2: error instanceof Error ? error.message : 'Could not start transcription',
+        position: 'top',
+        visibilityTime: 3000,
+      });
+    }
+  }, [retranscribing]);
+
+  const handleRenameSpeaker = useCallback(async (name: string) => {
+    if (!renamingSpeaker) return;
+    const { recording, speaker } = renamingSpeaker;
+    setRenamingSpeaker(null);
+
+    try {
+      await recordingService.renameSpeaker(recording, speaker, name);
+    } catch (error) {
+      Toast.show({
+        type: 'error',
+        text1: 'Rename Failed',
+        text2: error instanceof Error ? error.message : 'Could not rename speaker',
+        position: 'top',
+        visibilityTime: 3000,
+      });
+    }
+  }, [renamingSpeaker]);
+
+  const handleImport = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const { imported, skipped } = await audioImportService.pickAndImport();
+      if (imported.length === 0 && skipped.length === 0) return;
+
+      if (skipped.length > 0) {
+        Toast.show({
+          type: 'error',
+          text1: imported.length > 0
+            ? `Imported ${imported.length}, skipped ${skipped.length}`
+            : 'Import Failed',
+          text2: skipped.map(file => `${file.name}: ${file.reason}`).join('\n'),
+          position: 'top',
+          visibilityTime: 4000,
+        });
+      } else {
+        Toast.show({
+          type: 'success',
+          text1: `Imported ${imported.length} ${imported.length === 1 ? 'recording' : 'recordings'}`,
+          text2: 'Queued for transcription',
+          position: 'top',
+          visibilityTime: 2000,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to import audio:', error);
+      Alert.alert('Error', 'Failed to import audio');
+    }
+  }, []);
+
+  const handleAppend = useCallback(async (recording: Recording) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setAppendingTo(recording);
+    await startRecording({ appendTo: recording });
+  }, [startRecording]);
+
   const handleLongPress = useCallback((recording: Recording) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
     
-    const actions = [
+    const actions: AlertButton[] = [
       {
         text: 'Delete',
-        style: 'destructive' as const,
+        style: 'destructive',
         onPress: () => handleDelete(recording),
       },
     ];
@@ -229,18 +391,38 @@ export default function MainScreen() {
     if (recording.processingState.includes('failed')) {
       actions.unshift({
         text: 'Retry',
-        style: 'default' as const,
+        style: 'default',
         onPress: () => handleRetry(recording),
       });
     }
+
+    // Needs the uploaded audio, and a transcript (or failed attempt) to replace
+    const canRetranscribe = ['completed', 'transcribe_failed', 'webhook_failed'].includes(recording.processingState);
+    if (canRetranscribe) {
+      actions.unshift({
+        text: 'Re-transcribe',
+        style: 'default',
+        onPress: () => setRetranscribing(recording),
+      });
+    }
+
+    // Only once processing has settled, so the queue isn't mid-way through it
+    const canAppend = recording.processingState === 'completed' || recording.processingState.includes('failed');
+    if (canAppend && !isRecording) {
+      actions.unshift({
+        text: 'Add to This Recording',
+        style: 'default',
+        onPress: () => handleAppend(recording),
+      });
+    }
     
     actions.push({
       text: 'Cancel',
-      style: 'cancel' as const,
+      style: 'cancel',
     });
     
     Alert.alert('Recording Options', undefined, actions);
-  }, [handleDelete, handleRetry]);
+  }, [handleDelete, handleRetry, handleAppend, isRecording]);
 
   // Render section header
   const renderSectionHeader = useCallback(({ section: { title } }: { section: { title: string } }) => (
@@ -298,10 +480,62 @@ export default function MainScreen() {
         // No need to refresh - realtime will handle new recording
       }, 1800);
     } else {
+      setAppendingTo(null);
       await startRecording();
     }
   };
 
+  const handlePausePress = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    if (isPaused) {
+      await resumeRecording();
+    } else {
+      await pauseRecording();
+    }
+  };
+
+  const handleMarkPress = () => {
+    const marker = addMarker();
+    if (!marker) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    Toast.show({
+      type: 'info',
+      text1: `Marked at ${formatDuration(marker.offset)}`,
+      position: 'top',
+      visibilityTime: 1500,
+    });
+  };
+
+  const handleMarkLongPress = () => {
+    // Drop the marker now so the offset isn't delayed by picking a label
+    const marker = addMarker();
+    if (!marker) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setLabelingMarker(marker);
+  };
+
+  const handleMarkerLabel = (label: string) => {
+    if (labelingMarker) {
+      labelMarker(labelingMarker, label);
+    }
+    setLabelingMarker(null);
+  };
+
+  const handleMarkerSelect = useCallback((recordingId: string, markerIndex: number) => {
+    setActiveMarkers(prev => {
+      const next = { ...prev };
+      if (next[recordingId] === markerIndex) {
+        delete next[recordingId];
+      } else {
+        next[recordingId] = markerIndex;
+      }
+      return next;
+    });
+  }, []);
+
   const buttonAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: buttonScale.value }],
   }));
@@ -342,6 +576,15 @@ export default function MainScreen() {
 
   const RecordingItem = memo(function RecordingItem({ item, index }: { item: Recording; index: number }) {
     const scale = useSharedValue(1);
+    const trimmedDuration = getTrimmedDuration(item);
+    const isExpanded = expandedTranscripts.has(item.id);
+    const activeMarker = isExpanded ? item.markers?.[activeMarkers[item.id]] : undefined;
+    const passage = activeMarker && item.transcript
+      ? getTranscriptPassageAt(item.transcript, activeMarker.offset, item.duration, item.transcriptSegments)
+      : null;
+    const speakers = isExpanded ? getSpeakers(item.transcriptSegments) : [];
+    // Speakers of a split recording that couldn't be matched to an earlier part
+    const hasPartSpeakers = speakers.some(speaker => speaker.includes(' (part '));
 
     const animatedStyle = useAnimatedStyle(() => ({
       transform: [{ scale: scale.value }],
@@ -400,19 +643,143 @@ export default function MainScreen() {
                   )}
                 </View>
                 <ThemedText style={[styles.recordingDuration, { color: theme.textSecondary }]}>
-                  {formatDuration(item.duration)}
+                  {formatDuration(trimmedDuration)}
+                  {Math.floor(trimmedDuration) < Math.floor(item.duration) ? ` (trimmed from ${formatDuration(item.duration)})` : ''}
+                  {item.segments && item.segments.length > 1 ? ` · ${item.segments.length} parts` : ''}
                 </ThemedText>
               </View>
+
+              {item.waveform && item.waveform.length > 0 && (
+                <Waveform
+                  levels={item.waveform}
+                  color={theme.primary + '80'}
+                  height={20}
+                  barWidth={2}
+                  style={styles.recordingWaveform}
+                />
+              )}
+
+              {item.tags && item.tags.length > 0 && (
+                <View style={styles.markerList}>
+                  {item.tags.map(tag => (
+                    <Pressable
+                      key={tag}
+                      style={[styles.markerChip, { backgroundColor: theme.primary + '15' }]}
+                      onPress={() => setTagFilter(tag)}
+                      accessibilityLabel={`Show recordings tagged ${tag}`}
+                    >
+                      <ThemedText style={[styles.markerText, { color: theme.primary }]}>#{tag}</ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
               
-              {item.transcript && (
+              {isExpanded && item.markers && item.markers.length > 0 && (
+                <View style={styles.markerList}>
+                  {item.markers.map((marker, markerIndex) => {
+                    const isActive = activeMarkers[item.id] === markerIndex;
+                    return (
+                      <Pressable
+                        key={markerIndex}
+                        style={[
+                          styles.markerChip,
+                          { backgroundColor: isActive ? theme.primary : theme.primary + '15' },
+                        ]}
+                        onPress={() => handleMarkerSelect(item.id, markerIndex)}
+                      >
+                        <IconSymbol name="bookmark.fill" size={12} color={isActive ? theme.accent : theme.primary} />
+                        <ThemedText style={[styles.markerText, { color: isActive ? theme.accent : theme.primary }]}>
+                          {formatDuration(marker.offset)}
+                          {marker.label ? ` ${marker.label}` : ''}
+                        </ThemedText>
+                      </Pressable>
+                    );
+                  })}
+                </View>
+              )}
+
+              {speakers.length > 0 && (
+                <View style={styles.markerList}>
+                  {speakers.map(speaker => (
+                    <Pressable
+                      key={speaker}
+                      style={[styles.markerChip, { backgroundColor: theme.primary + '15' }]}
+                      onPress={() => setRenamingSpeaker({ recording: item, speaker })}
+                      accessibilityLabel={`Rename ${getSpeakerName(speaker, item.speakerNames)}`}
+                    >
+                      <IconSymbol name="person" size={12} color={theme.primary} />
+                      <ThemedText style={[styles.markerText, { color: theme.primary }]}>
+                        {getSpeakerName(speaker, item.speakerNames)}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
+              {hasPartSpeakers && (
+                <ThemedText style={[styles.speakerHint, { color: theme.textSecondary }]}>
+                  This recording was split into parts, so speakers are only matched where someone talks across a split. Give the same name to speakers who are the same person.
+                </ThemedText>
+              )}
+
+              {/* Long recordings are easier to recognize by their summary than by how they start */}
+              {!isExpanded && item.summary ? (
+                <ThemedText style={[styles.recordingTranscript, { color: theme.textSecondary }]} numberOfLines={3}>
+                  {item.summary}
+                </ThemedText>
+              ) : item.transcript && (
                 <ThemedText 
                   style={[styles.recordingTranscript, { color: theme.textSecondary }]} 
-                  numberOfLines={expandedTranscripts.has(item.id) ? undefined : 3}
+                  numberOfLines={isExpanded ? undefined : 3}
                 >
-                  {item.transcript}
+                  {passage ? (
+                    <>
+                      {item.transcript.slice(0, passage.start)}
+                      <ThemedText style={[styles.recordingTranscript, { color: theme.text, backgroundColor: theme.primary + '30' }]}>
+                        {item.transcript.slice(passage.start, passage.end)}
+                      </ThemedText>
+                      {item.transcript.slice(passage.end)}
+                    </>
+                  ) : item.transcript}
                 </ThemedText>
               )}
 
+              {isExpanded && item.summary && (
+                <>
+                  <ThemedText style={[styles.expandedSectionLabel, { color: theme.textSecondary }]}>
+                    SUMMARY
+                  </ThemedText>
+                  <ThemedText style={[styles.recordingTranscript, { color: theme.textSecondary }]}>
+                    {item.summary}
+                    {item.keyPoints?.map(point => `\n• ${point}`).join('')}
+                  </ThemedText>
+                </>
+              )}
+
+              {isExpanded && item.recipeOutputs?.map(recipeOutput => (
+                <View key={recipeOutput.recipeId}>
+                  <ThemedText style={[styles.expandedSectionLabel, { color: theme.textSecondary }]}>
+                    {recipeOutput.name.toUpperCase()}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.recordingTranscript, { color: recipeOutput.error ? theme.error : theme.textSecondary }]}
+                  >
+                    {recipeOutput.output ? formatRecipeOutput(recipeOutput.output) : recipeOutput.error}
+                  </ThemedText>
+                </View>
+              ))}
+
+              {isExpanded && item.translatedTranscript && (
+                <>
+                  <ThemedText style={[styles.expandedSectionLabel, { color: theme.textSecondary }]}>
+                    ENGLISH
+                  </ThemedText>
+                  <ThemedText style={[styles.recordingTranscript, { color: theme.textSecondary }]}>
+                    {item.translatedTranscript}
+                  </ThemedText>
+                </>
+              )}
+
               {/* Processing State Badge */}
               <ProcessingStateBadge 
                 recording={item} 
@@ -429,8 +796,14 @@ export default function MainScreen() {
       prevProps.item.id === nextProps.item.id &&
       prevProps.item.processingState === nextProps.item.processingState &&
       prevProps.item.transcript === nextProps.item.transcript &&
+      prevProps.item.translatedTranscript === nextProps.item.translatedTranscript &&
+      prevProps.item.recipeOutputs === nextProps.item.recipeOutputs &&
+      prevProps.item.summary === nextProps.item.summary &&
+      prevProps.item.tags === nextProps.item.tags &&
       prevProps.item.title === nextProps.item.title &&
       prevProps.item.uploadProgress === nextProps.item.uploadProgress &&
+      prevProps.item.transcriptionChunksDone === nextProps.item.transcriptionChunksDone &&
+      prevProps.item.speakerNames === nextProps.item.speakerNames &&
       prevProps.index === nextProps.index
     );
   });
@@ -456,6 +829,21 @@ export default function MainScreen() {
           <View style={styles.headerRight}>
             {/* Connection Indicator */}
             <View style={[styles.connectionIndicator, { backgroundColor: isConnected ? theme.success : theme.textSecondary }]} />
+            <Pressable
+              onPress={handleImport}
+              disabled={isRecording}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityLabel="Import audio"
+            >
+              <IconSymbol name="square.and.arrow.down" size={22} color={theme.text} />
+            </Pressable>
+            <Pressable
+              onPress={() => router.push('/tasks')}
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityLabel="Tasks"
+            >
+              <IconSymbol name="checklist" size={22} color={theme.text} />
+            </Pressable>
             <UserAvatar />
           </View>
         </View>
@@ -466,7 +854,7 @@ export default function MainScreen() {
         <View style={styles.loadingContainer}>
           <ThemedText style={styles.loadingText}>Loading recordings...</ThemedText>
         </View>
-      ) : groupedRecordings.length === 0 ? (
+      ) : recordings.length === 0 ? (
         <Animated.View
           entering={FadeInDown.delay(200)}
           style={styles.emptyState}
@@ -491,6 +879,28 @@ export default function MainScreen() {
           keyExtractor={(item) => item.id}
           renderItem={renderItem}
           renderSectionHeader={renderSectionHeader}
+          ListHeaderComponent={allTags.length > 0 ? (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.tagFilterList}
+            >
+              {[null, ...allTags].map(tag => {
+                const isActive = tagFilter === tag;
+                return (
+                  <Pressable
+                    key={tag ?? 'all'}
+                    style={[styles.markerChip, { backgroundColor: isActive ? theme.primary : theme.primary + '15' }]}
+                    onPress={() => setTagFilter(tag)}
+                  >
+                    <ThemedText style={[styles.markerText, { color: isActive ? theme.accent : theme.primary }]}>
+                      {tag ? `#${tag}` : 'All'}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </ScrollView>
+          ) : null}
           contentContainerStyle={[styles.listContent, { paddingTop: insets.top + 100 }]}
           showsVerticalScrollIndicator={false}
           removeClippedSubviews={true}
@@ -505,7 +915,17 @@ export default function MainScreen() {
       )}
 
       {/* Recording Timer Overlay */}
-      <RecordingTimer isRecording={isRecording} initialDuration={0} />
+      <RecordingTimer isRecording={isRecording} isPaused={isPaused} initialDuration={0}>
+        {appendingTo && (
+          <ThemedText style={[styles.appendingText, { color: theme.textSecondary }]} numberOfLines={1}>
+            Adding to {appendingTo.title || formatTimeOnly(appendingTo.timestamp)}
+          </ThemedText>
+        )}
+        <LiveWaveform
+          subscribe={subscribeToLevels}
+          color={isPaused ? theme.textSecondary : theme.primary}
+        />
+      </RecordingTimer>
 
       {/* Success Message */}
       {showSuccess && (
@@ -521,12 +941,25 @@ export default function MainScreen() {
 
       {/* Record Button - Fixed at bottom */}
       <View style={[styles.recordButtonContainer, { paddingBottom: insets.bottom + Spacing.xl }]}>
+        {isRecording && (
+          <Animated.View entering={FadeInDown} exiting={FadeOut}>
+            <Pressable
+              style={[styles.secondaryButton, { backgroundColor: theme.card }]}
+              onPress={handleMarkPress}
+              onLongPress={handleMarkLongPress}
+              disabled={isSaving}
+              accessibilityLabel="Add marker"
+            >
+              <IconSymbol size={22} name="bookmark.fill" color={theme.primary} />
+            </Pressable>
+          </Animated.View>
+        )}
         <Animated.View style={buttonAnimatedStyle}>
           <Pressable
             style={[
               styles.recordButton,
               { 
-                backgroundColor: isRecording ? theme.error : theme.primary,
+                backgroundColor: isRecording ? (isPaused ? theme.warning : theme.error) : theme.primary,
               }
             ]}
             onPressIn={handleRecordPressIn}
@@ -541,6 +974,21 @@ export default function MainScreen() {
             />
           </Pressable>
         </Animated.View>
+        {isRecording && (
+          <Animated.View entering={FadeInDown} exiting={FadeOut}>
+            <Pressable
+              style={[styles.secondaryButton, { backgroundColor: theme.card }]}
+              onPress={handlePausePress}
+              disabled={isSaving}
+            >
+              <IconSymbol
+                size={22}
+                name={isPaused ? "play.fill" : "pause.fill"}
+                color={theme.text}
+              />
+            </Pressable>
+          </Animated.View>
+        )}
       </View>
 
       {/* Error Message */}
@@ -556,6 +1004,25 @@ export default function MainScreen() {
           </ThemedText>
         </Animated.View>
       )}
+
+      <RetranscribeModal
+        recording={retranscribing}
+        onSubmit={handleRetranscribe}
+        onClose={() => setRetranscribing(null)}
+      />
+
+      <MarkerLabelModal
+        marker={labelingMarker}
+        onSelect={handleMarkerLabel}
+        onClose={() => setLabelingMarker(null)}
+      />
+
+      <SpeakerRenameModal
+        speaker={renamingSpeaker?.speaker ?? null}
+        currentName={renamingSpeaker?.recording.speakerNames?.[renamingSpeaker.speaker] ?? ''}
+        onSave={handleRenameSpeaker}
+        onClose={() => setRenamingSpeaker(null)}
+      />
     </ThemedView>
   );
 }
@@ -630,11 +1097,53 @@ const styles = StyleSheet.create({
     fontWeight: Typography.weights.semibold,
     marginBottom: 2,
   },
+  recordingWaveform: {
+    marginBottom: Spacing.sm,
+  },
   recordingTranscript: {
     fontSize: Typography.sizes.sm,
     lineHeight: Typography.sizes.sm * 1.4,
     marginBottom: Spacing.xs,
   },
+  expandedSectionLabel: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+    letterSpacing: 0.5,
+    marginTop: Spacing.xs,
+    marginBottom: 2,
+  },
+  appendingText: {
+    fontSize: Typography.sizes.xs,
+    textAlign: 'center',
+    marginBottom: Spacing.xs,
+  },
+  tagFilterList: {
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xs,
+  },
+  markerList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  markerChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+  },
+  markerText: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+  },
+  speakerHint: {
+    fontSize: Typography.sizes.xs,
+    marginBottom: Spacing.sm,
+  },
   sectionHeader: {
     paddingHorizontal: Spacing.lg,
     paddingVertical: Spacing.sm,
@@ -674,7 +1183,10 @@ const styles = StyleSheet.create({
     bottom: 0,
     left: 0,
     right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
     alignItems: 'center',
+    gap: Spacing.xl,
   },
   recordButton: {
     width: 72,
@@ -688,6 +1200,18 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.25,
     shadowRadius: 12,
   },
+  secondaryButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+    elevation: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 8,
+  },
   successOverlay: {
     position: 'absolute',
     top: '40%',
@@ -1,4 +1,4 @@
-import { StyleSheet, ScrollView, View, Alert, KeyboardAvoidingView, Platform, Pressable } from 'react-native';
+import { StyleSheet, ScrollView, View, Alert, KeyboardAvoidingView, Platform, Pressable, Switch } from 'react-native';
 import { useState, useEffect } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
@@ -14,10 +14,23 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { DictionaryInput } from '@/components/ui/DictionaryInput';
 import { IconSymbol } from '@/components/ui/IconSymbol';
-import { Settings } from '@/types';
+import { RecipeEditorModal } from '@/components/RecipeEditorModal';
+import { AudioQuality, Recipe, Settings, Tag } from '@/types';
 import { userSettingsService } from '@/services/userSettings';
+import { recipeService } from '@/services/recipes';
+import { tagService } from '@/services/tags';
 import { useAuth } from '@/contexts/AuthContext';
-import { DEFAULT_SETTINGS } from '@/utils/constants';
+import {
+  AUDIO_QUALITY_LABELS,
+  AUDIO_SETTINGS,
+  DEFAULT_SETTINGS,
+  SEGMENT_MINUTE_OPTIONS,
+  SILENCE_TIMEOUT_OPTIONS,
+  SUMMARY_MIN_SECONDS_OPTIONS,
+  TRANSCRIPTION_LANGUAGES,
+  TRANSCRIPTION_PROVIDERS,
+} from '@/utils/constants';
+import { estimateBytesPerMinute, formatFileSize, getTranscriptionBaseUrlError } from '@/utils/helpers';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
 import Toast from 'react-native-toast-message';
@@ -67,6 +80,45 @@ const SettingRow = ({ icon, title, subtitle, onPress, rightElement, showBorder =
   );
 };
 
+interface OptionListProps {
+  options: readonly number[];
+  selected: number;
+  formatOption: (value: number) => string;
+  onSelect: (value: number) => void;
+  showBorder?: boolean;
+}
+
+// Check-marked choices shown under the row they belong to
+const OptionList = ({ options, selected, formatOption, onSelect, showBorder = true }: OptionListProps) => {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+
+  return (
+    <Animated.View entering={FadeIn}>
+      {options.map((value, index) => (
+        <Pressable
+          key={value}
+          style={[
+            styles.optionRow,
+            (showBorder || index < options.length - 1) && { borderBottomColor: theme.cardBorder, borderBottomWidth: 1 }
+          ]}
+          onPress={() => onSelect(value)}
+          accessibilityRole="radio"
+          accessibilityState={{ checked: value === selected }}
+        >
+          <ThemedText style={styles.optionLabel}>{formatOption(value)}</ThemedText>
+          {value === selected && (
+            <IconSymbol name="checkmark" size={18} color={theme.primary} />
+          )}
+        </Pressable>
+      ))}
+    </Animated.View>
+  );
+};
+
+// Settings whose choices open in place under their row
+type OptionSetting = 'segmentMinutes' | 'silenceTimeoutSeconds' | 'summaryMinSeconds';
+
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
   const theme = Colors[colorScheme ?? 'light'];
@@ -77,11 +129,25 @@ export default function SettingsScreen() {
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showDictionary, setShowDictionary] = useState(false);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [showTags, setShowTags] = useState(false);
+  // The saved key is never sent back, so this only holds a new one: null leaves it, '' removes it
+  const [apiKeyDraft, setApiKeyDraft] = useState<string | null>(null);
+  const [openOptions, setOpenOptions] = useState<OptionSetting | null>(null);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      loadRecipes();
+      loadTags();
+    }
+  }, [user]);
+
   const loadSettings = async () => {
     try {
       const loadedSettings = await userSettingsService.getSettings();
@@ -97,17 +163,138 @@ export default function SettingsScreen() {
     }
   };
 
+  const loadRecipes = async () => {
+    try {
+      setRecipes(await recipeService.getRecipes());
+    } catch (error) {
+      console.error('Failed to load recipes:', error);
+    }
+  };
+
+  // Recipes live in their own table, so they save right away rather than with Save Changes
+  const saveRecipe = async (recipe: Recipe) => {
+    try {
+      const saved = await recipeService.saveRecipe({ ...recipe, id: recipe.id || undefined });
+      setRecipes(prev => recipe.id
+        ? prev.map(existing => existing.id === saved.id ? saved : existing)
+        : [...prev, saved]);
+      setEditingRecipe(null);
+    } catch (error) {
+      console.error('Failed to save recipe:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Failed to save recipe',
+        position: 'top',
+        visibilityTime: 3000,
+      });
+    }
+  };
+
+  const deleteRecipe = (recipe: Recipe) => {
+    Alert.alert(
+      'Delete Recipe',
+      `"${recipe.name}" will no longer run on new recordings. Outputs it already made are kept.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await recipeService.deleteRecipe(recipe.id);
+              setRecipes(prev => prev.filter(existing => existing.id !== recipe.id));
+              setEditingRecipe(null);
+            } catch (error) {
+              console.error('Failed to delete recipe:', error);
+              Toast.show({
+                type: 'error',
+                text1: 'Failed to delete recipe',
+                position: 'top',
+                visibilityTime: 3000,
+              });
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const loadTags = async () => {
+    try {
+      setTags(await tagService.getTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const showTagError = () => {
+    Toast.show({
+      type: 'error',
+      text1: 'Failed to update tags',
+      position: 'top',
+      visibilityTime: 3000,
+    });
+  };
+
+  // Like recipes, tags save right away. Adding a suggested tag keeps it.
+  const addTag = async (name: string) => {
+    try {
+      const tag = await tagService.addTag(name);
+      setTags(prev => [...prev.filter(existing => existing.id !== tag.id), tag]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      console.error('Failed to add tag:', error);
+      showTagError();
+    }
+  };
+
+  const deleteTag = async (tag: Tag) => {
+    try {
+      await tagService.deleteTag(tag.id);
+      setTags(prev => prev.filter(existing => existing.id !== tag.id));
+    } catch (error) {
+      console.error('Failed to delete tag:', error);
+      showTagError();
+    }
+  };
+
+  const changeTagVocabulary = (names: string[]) => {
+    const kept = tags.filter(tag => !tag.suggested);
+    names.filter(name => !kept.some(tag => tag.name === name)).forEach(addTag);
+    kept.filter(tag => !names.includes(tag.name)).forEach(deleteTag);
+  };
+
   const updateSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => {
     setSettings(prev => ({ ...prev, [key]: value }));
     setHasChanges(true);
   };
 
+  const baseUrlError = settings.transcriptionProvider === 'openai_compatible' && settings.transcriptionBaseUrl
+    ? getTranscriptionBaseUrlError(settings.transcriptionBaseUrl)
+    : null;
+
   const saveSettings = async () => {
+    if (baseUrlError) {
+      Toast.show({
+        type: 'error',
+        text1: 'Check the transcription server URL',
+        text2: baseUrlError,
+        position: 'top',
+        visibilityTime: 3000,
+      });
+      return;
+    }
+
     try {
       setIsSaving(true);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
       
       await userSettingsService.saveSettings(settings);
+      if (apiKeyDraft !== null) {
+        await userSettingsService.setTranscriptionApiKey(apiKeyDraft);
+        setSettings(prev => ({ ...prev, transcriptionApiKeySet: apiKeyDraft !== '' }));
+        setApiKeyDraft(null);
+      }
       setHasChanges(false);
       
       Toast.show({
@@ -128,6 +315,21 @@ export default function SettingsScreen() {
     }
   };
 
+  const formatSegmentMinutes = (minutes: number) =>
+    minutes > 0 ? `New file every ${minutes} minutes` : 'Only when too long to transcribe in one file';
+
+  const toggleOptions = (setting: OptionSetting) =>
+    setOpenOptions(prev => (prev === setting ? null : setting));
+
+  const formatSilenceTimeout = (seconds: number) =>
+    seconds > 0 ? `Stop after ${seconds} seconds of silence` : 'Off';
+
+  const formatMinutes = (seconds: number) =>
+    seconds === 60 ? '1 minute' : `${seconds / 60} minutes`;
+
+  const formatSummaryMinSeconds = (seconds: number) =>
+    seconds > 0 ? `Recordings over ${formatMinutes(seconds)}` : 'Off';
+
   const handleClose = () => {
     if (hasChanges) {
       Alert.alert(
@@ -235,6 +437,44 @@ export default function SettingsScreen() {
               TRANSCRIPTION
             </ThemedText>
             <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              <SettingRow
+                icon="person.2"
+                title="Label Speakers"
+                subtitle="Mark who said what in meetings"
+                rightElement={
+                  <Switch
+                    value={settings.diarizationEnabled}
+                    onValueChange={(value) => updateSetting('diarizationEnabled', value)}
+                    trackColor={{ true: theme.primary }}
+                  />
+                }
+              />
+              <SettingRow
+                icon="list.bullet"
+                title="Hint with Recent Titles"
+                subtitle="Helps recognize names you've talked about lately"
+                rightElement={
+                  <Switch
+                    value={settings.promptWithRecentTitles}
+                    onValueChange={(value) => updateSetting('promptWithRecentTitles', value)}
+                    trackColor={{ true: theme.primary }}
+                  />
+                }
+              />
+              <SettingRow
+                icon="text.alignleft"
+                title="Summaries"
+                subtitle={formatSummaryMinSeconds(settings.summaryMinSeconds)}
+                onPress={() => toggleOptions('summaryMinSeconds')}
+              />
+              {openOptions === 'summaryMinSeconds' && (
+                <OptionList
+                  options={SUMMARY_MIN_SECONDS_OPTIONS}
+                  selected={settings.summaryMinSeconds}
+                  formatOption={seconds => (seconds > 0 ? `Over ${formatMinutes(seconds)}` : 'Off')}
+                  onSelect={seconds => updateSetting('summaryMinSeconds', seconds)}
+                />
+              )}
               <SettingRow
                 icon="book"
                 title="Custom Dictionary"
@@ -255,8 +495,297 @@ export default function SettingsScreen() {
                 </Animated.View>
               )}
             </View>
+            <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+              Dictionary terms are given to the transcriber as spelling hints, and used again when the transcript is corrected.
+            </ThemedText>
           </Animated.View>
 
+          {/* Audio Quality Section */}
+          <Animated.View entering={FadeInDown.delay(400)}>
+            <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>
+              AUDIO QUALITY
+            </ThemedText>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              {(Object.keys(AUDIO_SETTINGS) as AudioQuality[]).map((quality, index, qualities) => {
+                const preset = AUDIO_SETTINGS[quality];
+                return (
+                  <SettingRow
+                    key={quality}
+                    icon="waveform"
+                    title={AUDIO_QUALITY_LABELS[quality]}
+                    subtitle={`${preset.sampleRate / 1000} kHz · ~${formatFileSize(estimateBytesPerMinute(preset.bitRate))} per minute`}
+                    onPress={() => updateSetting('audioQuality', quality)}
+                    showBorder={index < qualities.length - 1}
+                    rightElement={
+                      settings.audioQuality === quality && (
+                        <IconSymbol name="checkmark" size={18} color={theme.primary} />
+                      )
+                    }
+                  />
+                );
+              })}
+            </View>
+            <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+              Lower quality uploads faster, which helps with long meetings.
+            </ThemedText>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              <SettingRow
+                icon="scissors"
+                title="Split Long Recordings"
+                subtitle={formatSegmentMinutes(settings.segmentMinutes)}
+                onPress={() => toggleOptions('segmentMinutes')}
+              />
+              {openOptions === 'segmentMinutes' && (
+                <OptionList
+                  options={SEGMENT_MINUTE_OPTIONS}
+                  selected={settings.segmentMinutes}
+                  formatOption={minutes => (minutes > 0 ? `Every ${minutes} minutes` : 'Only when needed')}
+                  onSelect={minutes => updateSetting('segmentMinutes', minutes)}
+                />
+              )}
+              <SettingRow
+                icon="speaker.slash"
+                title="Auto-stop on Silence"
+                subtitle={formatSilenceTimeout(settings.silenceTimeoutSeconds)}
+                onPress={() => toggleOptions('silenceTimeoutSeconds')}
+                showBorder={openOptions === 'silenceTimeoutSeconds'}
+              />
+              {openOptions === 'silenceTimeoutSeconds' && (
+                <OptionList
+                  options={SILENCE_TIMEOUT_OPTIONS}
+                  selected={settings.silenceTimeoutSeconds}
+                  formatOption={seconds => (seconds > 0 ? `After ${seconds} seconds` : 'Off')}
+                  onSelect={seconds => updateSetting('silenceTimeoutSeconds', seconds)}
+                  showBorder={false}
+                />
+              )}
+            </View>
+          </Animated.View>
+
+          {/* Transcription Language Section */}
+          <Animated.View entering={FadeInDown.delay(500)}>
+            <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>
+              TRANSCRIPTION LANGUAGE
+            </ThemedText>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              {TRANSCRIPTION_LANGUAGES.map(({ code, label }, index) => (
+                <SettingRow
+                  key={code}
+                  icon="globe"
+                  title={label}
+                  onPress={() => updateSetting('transcriptionLanguage', code)}
+                  showBorder={index < TRANSCRIPTION_LANGUAGES.length - 1}
+                  rightElement={
+                    settings.transcriptionLanguage === code && (
+                      <IconSymbol name="checkmark" size={18} color={theme.primary} />
+                    )
+                  }
+                />
+              ))}
+            </View>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              <SettingRow
+                icon="globe"
+                title="Translate to English"
+                subtitle="Keep the original and add an English version"
+                rightElement={
+                  <Switch
+                    value={settings.translateToEnglish}
+                    onValueChange={(value) => updateSetting('translateToEnglish', value)}
+                    trackColor={{ true: theme.primary }}
+                  />
+                }
+              />
+            </View>
+            <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+              Auto-detect works best when each recording sticks to one language. English recordings are never translated.
+            </ThemedText>
+          </Animated.View>
+
+          {/* Transcription Provider Section */}
+          <Animated.View entering={FadeInDown.delay(600)}>
+            <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>
+              TRANSCRIPTION PROVIDER
+            </ThemedText>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              {TRANSCRIPTION_PROVIDERS.map(({ id, label, defaultModel }, index) => (
+                <SettingRow
+                  key={id}
+                  icon="server.rack"
+                  title={label}
+                  subtitle={`Default model: ${defaultModel}`}
+                  onPress={() => {
+                    if (id !== settings.transcriptionProvider) {
+                      // Model names differ between providers, so don't carry one over
+                      setSettings(prev => ({ ...prev, transcriptionProvider: id, transcriptionModel: '' }));
+                      setHasChanges(true);
+                    }
+                  }}
+                  showBorder={index < TRANSCRIPTION_PROVIDERS.length - 1}
+                  rightElement={
+                    settings.transcriptionProvider === id && (
+                      <IconSymbol name="checkmark" size={18} color={theme.primary} />
+                    )
+                  }
+                />
+              ))}
+            </View>
+            <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+              <View style={styles.inputContainer}>
+                <Input
+                  label="Model"
+                  value={settings.transcriptionModel}
+                  onChangeText={(text) => updateSetting('transcriptionModel', text.trim())}
+                  placeholder={
+                    TRANSCRIPTION_PROVIDERS.find(({ id }) => id === settings.transcriptionProvider)?.defaultModel
+                  }
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  style={styles.input}
+                />
+                {settings.transcriptionProvider === 'openai_compatible' && (
+                  <>
+                    <Input
+                      label="Server URL"
+                      value={settings.transcriptionBaseUrl}
+                      onChangeText={(text) => updateSetting('transcriptionBaseUrl', text.trim())}
+                      placeholder="https://whisper.example.com/v1"
+                      error={baseUrlError ?? undefined}
+                      autoCapitalize="none"
+                      keyboardType="url"
+                      autoCorrect={false}
+                      style={styles.input}
+                    />
+                    <Input
+                      label="API Key"
+                      value={apiKeyDraft ?? ''}
+                      onChangeText={(text) => {
+                        setApiKeyDraft(text.trim());
+                        setHasChanges(true);
+                      }}
+                      placeholder={
+                        settings.transcriptionApiKeySet && apiKeyDraft === null
+                          ? 'Saved, type a new key to replace it'
+                          : 'Optional'
+                      }
+                      autoCapitalize="none"
+                      autoCorrect={false}
+                      secureTextEntry
+                      style={styles.input}
+                    />
+                    {settings.transcriptionApiKeySet && apiKeyDraft === null && (
+                      <Pressable
+                        onPress={() => {
+                          setApiKeyDraft('');
+                          setHasChanges(true);
+                        }}
+                        accessibilityRole="button"
+                      >
+                        <ThemedText style={[styles.settingSubtitle, { color: theme.error }]}>
+                          Remove saved key
+                        </ThemedText>
+                      </Pressable>
+                    )}
+                  </>
+                )}
+              </View>
+            </View>
+            <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+              Any server with an OpenAI-style /audio/transcriptions endpoint works, such as a self-hosted faster-whisper.
+            </ThemedText>
+          </Animated.View>
+
+          {/* Recipes Section */}
+          {user && (
+            <Animated.View entering={FadeInDown.delay(700)}>
+              <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>
+                RECIPES
+              </ThemedText>
+              <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+                {recipes.map(recipe => (
+                  <SettingRow
+                    key={recipe.id}
+                    icon="wand.and.stars"
+                    title={recipe.name}
+                    subtitle={recipe.prompt}
+                    onPress={() => setEditingRecipe(recipe)}
+                    rightElement={
+                      <Switch
+                        value={recipe.enabled}
+                        onValueChange={(enabled) => saveRecipe({ ...recipe, enabled })}
+                        trackColor={{ true: theme.primary }}
+                      />
+                    }
+                  />
+                ))}
+                <SettingRow
+                  icon="plus"
+                  title="Add Recipe"
+                  onPress={() => setEditingRecipe({ id: '', name: '', prompt: '', outputSchema: {}, enabled: true })}
+                  showBorder={false}
+                />
+              </View>
+              <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+                Enabled recipes run on every new transcript, and their JSON output is sent with the webhook.
+              </ThemedText>
+            </Animated.View>
+          )}
+
+          {/* Tags Section */}
+          {user && (
+            <Animated.View entering={FadeInDown.delay(800)}>
+              <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>
+                TAGS
+              </ThemedText>
+              <View style={[styles.groupContainer, { backgroundColor: theme.card }]}>
+                <SettingRow
+                  icon="bookmark.fill"
+                  title="Tags"
+                  subtitle={`${tags.filter(tag => !tag.suggested).length} tags`}
+                  onPress={() => setShowTags(!showTags)}
+                  showBorder={showTags}
+                />
+                {showTags && (
+                  <Animated.View
+                    entering={FadeIn}
+                    style={styles.dictionaryContainer}
+                  >
+                    <DictionaryInput
+                      value={tags.filter(tag => !tag.suggested).map(tag => tag.name)}
+                      onChange={changeTagVocabulary}
+                      placeholder="Add a tag..."
+                    />
+                    {tags.some(tag => tag.suggested) && (
+                      <>
+                        <ThemedText style={[styles.settingSubtitle, { color: theme.textSecondary }]}>
+                          Suggested
+                        </ThemedText>
+                        <View style={styles.suggestedTags}>
+                          {tags.filter(tag => tag.suggested).map(tag => (
+                            <Pressable
+                              key={tag.id}
+                              style={[styles.suggestedTag, { borderColor: theme.primary }]}
+                              onPress={() => addTag(tag.name)}
+                              onLongPress={() => deleteTag(tag)}
+                              accessibilityLabel={`Keep suggested tag ${tag.name}`}
+                            >
+                              <ThemedText style={[styles.suggestedTagText, { color: theme.primary }]}>
+                                #{tag.name}
+                              </ThemedText>
+                            </Pressable>
+                          ))}
+                        </View>
+                      </>
+                    )}
+                  </Animated.View>
+                )}
+              </View>
+              <ThemedText style={[styles.groupFootnote, { color: theme.textSecondary }]}>
+                Recordings are tagged from this list, or with a new suggestion when none fit. Say &quot;tag work&quot; while recording to add one yourself. Tap a suggestion to keep it, or long-press to remove it.
+              </ThemedText>
+            </Animated.View>
+          )}
+
           {/* Save Button */}
           {hasChanges && (
             <Animated.View 
@@ -276,6 +805,13 @@ export default function SettingsScreen() {
           <View style={styles.bottomSpacer} />
         </ScrollView>
       </KeyboardAvoidingView>
+
+      <RecipeEditorModal
+        recipe={editingRecipe}
+        onSave={saveRecipe}
+        onDelete={deleteRecipe}
+        onClose={() => setEditingRecipe(null)}
+      />
     </ThemedView>
   );
 }
@@ -325,6 +861,12 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     marginBottom: Spacing.md,
   },
+  groupFootnote: {
+    fontSize: Typography.sizes.xs,
+    marginTop: -Spacing.xs,
+    marginBottom: Spacing.md,
+    paddingHorizontal: Spacing.xs,
+  },
   settingRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -353,6 +895,18 @@ const styles = StyleSheet.create({
   rightElement: {
     marginRight: Spacing.sm,
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.md,
+    paddingRight: Spacing.lg,
+    // Line up with the titles of the rows above, past their icons
+    paddingLeft: Spacing.lg + 32 + Spacing.md,
+  },
+  optionLabel: {
+    fontSize: Typography.sizes.base,
+  },
   inputContainer: {
     padding: Spacing.lg,
     paddingBottom: Spacing.md,
@@ -364,6 +918,23 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     paddingTop: 0,
   },
+  suggestedTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+  },
+  suggestedTag: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  suggestedTagText: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+  },
   saveButtonContainer: {
     marginTop: Spacing.xl,
     marginBottom: Spacing.xl,
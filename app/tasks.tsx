@@ -0,0 +1,254 @@
+import { StyleSheet, View, Pressable, SectionList } from 'react-native';
+import { useState, useEffect, useMemo } from 'react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { ThemedText } from '@/components/ThemedText';
+import { ThemedView } from '@/components/ThemedView';
+import { IconSymbol } from '@/components/ui/IconSymbol';
+import { RecordingTask } from '@/types';
+import { taskService } from '@/services/tasks';
+import { formatDueDate } from '@/utils/helpers';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
+import Toast from 'react-native-toast-message';
+
+export default function TasksScreen() {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [tasks, setTasks] = useState<RecordingTask[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadTasks();
+  }, []);
+
+  const loadTasks = async () => {
+    try {
+      setTasks(await taskService.getTasks());
+    } catch (error) {
+      console.error('Failed to load tasks:', error);
+      Toast.show({
+        type: 'error',
+        text1: 'Failed to load tasks',
+        position: 'top',
+        visibilityTime: 3000,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Checked off right away, and put back if the update fails
+  const toggleTask = async (task: RecordingTask) => {
+    const completed = !task.completed;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setTasks(prev => prev.map(existing => existing.id === task.id ? { ...existing, completed } : existing));
+
+    try {
+      await taskService.setTaskCompleted(task.id, completed);
+    } catch (error) {
+      console.error('Failed to update task:', error);
+      setTasks(prev => prev.map(existing => existing.id === task.id ? { ...existing, completed: !completed } : existing));
+      Toast.show({
+        type: 'error',
+        text1: 'Failed to update task',
+        position: 'top',
+        visibilityTime: 3000,
+      });
+    }
+  };
+
+  const sections = useMemo(() => {
+    const open = tasks.filter(task => !task.completed);
+    const done = tasks.filter(task => task.completed);
+    return [
+      { title: 'To Do', data: open },
+      { title: 'Done', data: done },
+    ].filter(section => section.data.length > 0);
+  }, [tasks]);
+
+  const renderTask = ({ item }: { item: RecordingTask }) => {
+    const due = item.dueDate ? formatDueDate(item.dueDate) : null;
+    const details = [
+      item.people.length > 0 ? item.people.join(', ') : null,
+      item.recordingTitle,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <Pressable
+        style={[styles.taskRow, { backgroundColor: theme.card }]}
+        onPress={() => toggleTask(item)}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: item.completed }}
+      >
+        <IconSymbol
+          name={item.completed ? 'checkmark.circle.fill' : 'checkmark.circle'}
+          size={24}
+          color={item.completed ? theme.primary : theme.textSecondary}
+        />
+        <View style={styles.taskContent}>
+          <ThemedText
+            style={[
+              styles.taskText,
+              item.completed && { color: theme.textSecondary, textDecorationLine: 'line-through' },
+            ]}
+          >
+            {item.text}
+          </ThemedText>
+          {(due || details) && (
+            <View style={styles.taskDetails}>
+              {due && (
+                <View style={styles.dueDate}>
+                  <IconSymbol
+                    name="calendar"
+                    size={12}
+                    color={due.overdue && !item.completed ? theme.error : theme.textSecondary}
+                  />
+                  <ThemedText
+                    style={[
+                      styles.taskDetailText,
+                      { color: due.overdue && !item.completed ? theme.error : theme.textSecondary },
+                    ]}
+                  >
+                    {due.label}
+                  </ThemedText>
+                </View>
+              )}
+              {!!details && (
+                <ThemedText style={[styles.taskDetailText, { color: theme.textSecondary }]} numberOfLines={1}>
+                  {details}
+                </ThemedText>
+              )}
+            </View>
+          )}
+        </View>
+      </Pressable>
+    );
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      {/* Header */}
+      <View style={[styles.header, { paddingTop: insets.top + Spacing.md }]}>
+        <View style={styles.headerContent}>
+          <ThemedText type="title" style={styles.title}>Tasks</ThemedText>
+          <Pressable onPress={() => router.back()} style={styles.closeButton}>
+            <IconSymbol name="xmark" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <View style={styles.emptyState}>
+          <ThemedText style={[styles.emptySubtext, { color: theme.textSecondary }]}>Loading tasks...</ThemedText>
+        </View>
+      ) : sections.length === 0 ? (
+        <Animated.View entering={FadeInDown.delay(100)} style={styles.emptyState}>
+          <ThemedText style={styles.emptyText}>No tasks yet</ThemedText>
+          <ThemedText style={[styles.emptySubtext, { color: theme.textSecondary }]}>
+            Say things like &quot;remind me to&quot; in a recording and they show up here
+          </ThemedText>
+        </Animated.View>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTask}
+          renderSectionHeader={({ section: { title } }) => (
+            <ThemedText style={[styles.sectionHeaderText, { color: theme.textSecondary }]}>
+              {title}
+            </ThemedText>
+          )}
+          contentContainerStyle={[styles.listContent, { paddingBottom: insets.bottom + Spacing.xl }]}
+          stickySectionHeadersEnabled={false}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: Spacing.xl,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  headerContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingBottom: Spacing.md,
+  },
+  closeButton: {
+    padding: Spacing.sm,
+    margin: -Spacing.sm,
+  },
+  title: {
+    fontSize: Typography.sizes.xxxl,
+    fontWeight: Typography.weights.bold,
+    lineHeight: Typography.sizes.xxxl * 1.3,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.xl,
+  },
+  sectionHeaderText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.semibold,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.sm,
+  },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.sm,
+  },
+  taskContent: {
+    flex: 1,
+  },
+  taskText: {
+    fontSize: Typography.sizes.base,
+  },
+  taskDetails: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginTop: 4,
+  },
+  dueDate: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  taskDetailText: {
+    fontSize: Typography.sizes.xs,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.xl,
+  },
+  emptyText: {
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.semibold,
+    marginBottom: Spacing.sm,
+  },
+  emptySubtext: {
+    fontSize: Typography.sizes.base,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,76 @@
+import { Modal, Pressable, StyleSheet } from 'react-native';
+import { ThemedText } from './ThemedText';
+import { Button } from './ui/Button';
+import { RecordingMarker } from '@/types';
+import { MARKER_QUICK_LABELS } from '@/utils/constants';
+import { formatDuration } from '@/utils/helpers';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
+
+interface MarkerLabelModalProps {
+  marker: RecordingMarker | null; // The modal is hidden when null
+  onSelect: (label: string) => void;
+  onClose: () => void;
+}
+
+// The marker is already placed, so closing without a choice just leaves it unlabeled
+export function MarkerLabelModal({ marker, onSelect, onClose }: MarkerLabelModalProps) {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+
+  return (
+    <Modal visible={marker !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.dialog, { backgroundColor: theme.card }]}>
+          <ThemedText style={styles.title}>
+            Marker at {formatDuration(marker?.offset ?? 0)}
+          </ThemedText>
+
+          {MARKER_QUICK_LABELS.map((label, index) => (
+            <Pressable
+              key={label}
+              style={[
+                styles.labelRow,
+                index < MARKER_QUICK_LABELS.length - 1 && { borderBottomColor: theme.cardBorder, borderBottomWidth: 1 },
+              ]}
+              onPress={() => onSelect(label)}
+              accessibilityRole="button"
+            >
+              <ThemedText style={styles.labelText}>{label}</ThemedText>
+            </Pressable>
+          ))}
+
+          <Button title="No Label" variant="secondary" size="small" onPress={onClose} style={styles.closeButton} />
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  dialog: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+    marginBottom: Spacing.sm,
+  },
+  labelRow: {
+    paddingVertical: Spacing.md,
+  },
+  labelText: {
+    fontSize: Typography.sizes.base,
+  },
+  closeButton: {
+    alignSelf: 'flex-end',
+    marginTop: Spacing.md,
+  },
+});
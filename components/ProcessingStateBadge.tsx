@@ -30,8 +30,12 @@ export function ProcessingStateBadge({ recording, onRetry }: ProcessingStateBadg
         return { label: 'Uploading', icon: 'arrow.up.circle', color: theme.primary, showProgress: true };
       case 'uploaded':
         return { label: 'Uploaded', icon: 'checkmark.circle', color: theme.success };
-      case 'transcribing':
-        return { label: 'Transcribing', icon: 'waveform', color: theme.primary, showProgress: true };
+      case 'transcribing': {
+        // Oversized files are transcribed in chunks; count the one in progress
+        const { transcriptionChunksDone: done, transcriptionChunksTotal: total } = recording;
+        const label = total ? `Transcribing ${Math.min((done ?? 0) + 1, total)}/${total}` : 'Transcribing';
+        return { label, icon: 'waveform', color: theme.primary, showProgress: true };
+      }
       case 'transcribed':
         return { label: 'Transcribed', icon: 'text.bubble', color: theme.success };
       case 'webhook_sending':
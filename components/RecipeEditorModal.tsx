@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react';
+import { KeyboardAvoidingView, Modal, Platform, Pressable, ScrollView, StyleSheet, View } from 'react-native';
+import { ThemedText } from './ThemedText';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Recipe } from '@/types';
+import { RECIPE_TEMPLATES } from '@/utils/constants';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
+
+interface RecipeEditorModalProps {
+  recipe: Recipe | null; // An empty id adds a new recipe; the modal is hidden when null
+  onSave: (recipe: Recipe) => void;
+  onDelete: (recipe: Recipe) => void;
+  onClose: () => void;
+}
+
+// The output schema is edited as JSON text and only parsed on save
+export function RecipeEditorModal({ recipe, onSave, onDelete, onClose }: RecipeEditorModalProps) {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [schemaText, setSchemaText] = useState('');
+  const [schemaError, setSchemaError] = useState<string>();
+
+  useEffect(() => {
+    if (!recipe) return;
+
+    setName(recipe.name);
+    setPrompt(recipe.prompt);
+    setSchemaText(JSON.stringify(recipe.outputSchema, null, 2));
+    setSchemaError(undefined);
+  }, [recipe]);
+
+  const applyTemplate = (template: typeof RECIPE_TEMPLATES[number]) => {
+    setName(template.name);
+    setPrompt(template.prompt);
+    setSchemaText(JSON.stringify(template.outputSchema, null, 2));
+    setSchemaError(undefined);
+  };
+
+  const handleSave = () => {
+    if (!recipe || !name.trim() || !prompt.trim()) return;
+
+    let outputSchema: Record<string, any>;
+    try {
+      outputSchema = JSON.parse(schemaText || '{}');
+    } catch {
+      setSchemaError('Not valid JSON');
+      return;
+    }
+    if (typeof outputSchema !== 'object' || outputSchema === null || Array.isArray(outputSchema)) {
+      setSchemaError('The schema must be a JSON object');
+      return;
+    }
+
+    onSave({ ...recipe, name: name.trim(), prompt: prompt.trim(), outputSchema });
+  };
+
+  return (
+    <Modal visible={recipe !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.flex}
+      >
+        <Pressable style={styles.backdrop} onPress={onClose}>
+          <Pressable style={[styles.dialog, { backgroundColor: theme.card }]}>
+            <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+              <ThemedText style={styles.title}>{recipe?.id ? 'Edit Recipe' : 'New Recipe'}</ThemedText>
+
+              {!recipe?.id && (
+                <View style={styles.chipList}>
+                  {RECIPE_TEMPLATES.map(template => (
+                    <Pressable
+                      key={template.name}
+                      style={[styles.chip, { backgroundColor: theme.primary + '15' }]}
+                      onPress={() => applyTemplate(template)}
+                    >
+                      <ThemedText style={[styles.chipText, { color: theme.primary }]}>
+                        {template.name}
+                      </ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
+
+              <Input
+                label="Name"
+                value={name}
+                onChangeText={setName}
+                placeholder="Meeting Summary"
+              />
+              <Input
+                label="Prompt"
+                value={prompt}
+                onChangeText={setPrompt}
+                placeholder="What should be made from each transcript?"
+                multiline
+                style={styles.multiline}
+              />
+              <Input
+                label="Output Schema (JSON)"
+                value={schemaText}
+                onChangeText={(text) => {
+                  setSchemaText(text);
+                  setSchemaError(undefined);
+                }}
+                placeholder='{ "type": "object", "properties": { ... } }'
+                autoCapitalize="none"
+                autoCorrect={false}
+                multiline
+                error={schemaError}
+                style={[styles.multiline, styles.code]}
+              />
+
+              <View style={styles.actions}>
+                {!!recipe?.id && (
+                  <Button
+                    title="Delete"
+                    variant="ghost"
+                    size="small"
+                    onPress={() => onDelete(recipe)}
+                    style={styles.deleteButton}
+                  />
+                )}
+                <Button title="Cancel" variant="secondary" size="small" onPress={onClose} />
+                <Button
+                  title="Save"
+                  size="small"
+                  onPress={handleSave}
+                  disabled={!name.trim() || !prompt.trim()}
+                />
+              </View>
+            </ScrollView>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  dialog: {
+    maxHeight: '85%',
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+    marginBottom: Spacing.md,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+  },
+  multiline: {
+    height: 96,
+    paddingTop: Spacing.sm,
+    textAlignVertical: 'top',
+  },
+  code: {
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+    fontSize: Typography.sizes.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+  },
+  deleteButton: {
+    marginRight: 'auto',
+  },
+});
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ReactNode } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/useColorScheme';
@@ -6,27 +6,30 @@ import { Colors, Spacing, BorderRadius, Typography } from '@/constants/Colors';
 
 interface RecordingTimerProps {
   isRecording: boolean;
+  isPaused?: boolean;
   initialDuration: number;
+  children?: ReactNode;
 }
 
-export function RecordingTimer({ isRecording, initialDuration }: RecordingTimerProps) {
+export function RecordingTimer({ isRecording, isPaused = false, initialDuration, children }: RecordingTimerProps) {
   const colorScheme = useColorScheme();
   const theme = Colors[colorScheme ?? 'light'];
   const [duration, setDuration] = useState(initialDuration);
 
+  // Reset only when a recording starts or ends, so pausing keeps the elapsed time
   useEffect(() => {
-    if (!isRecording) {
-      setDuration(0);
-      return;
-    }
+    setDuration(isRecording ? initialDuration : 0);
+  }, [isRecording, initialDuration]);
+
+  useEffect(() => {
+    if (!isRecording || isPaused) return;
 
-    setDuration(initialDuration);
     const interval = setInterval(() => {
       setDuration(prev => prev + 1);
     }, 1000);
 
     return () => clearInterval(interval);
-  }, [isRecording, initialDuration]);
+  }, [isRecording, isPaused]);
 
   if (!isRecording) return null;
 
@@ -37,14 +40,15 @@ export function RecordingTimer({ isRecording, initialDuration }: RecordingTimerP
     >
       <View style={[styles.timerCard, { backgroundColor: theme.card }]}>
         <View style={styles.pulseIndicator}>
-          <View style={[styles.pulseDot, { backgroundColor: theme.error }]} />
+          <View style={[styles.pulseDot, { backgroundColor: isPaused ? theme.warning : theme.error }]} />
         </View>
-        <Text style={[styles.timerText, { color: theme.text }]}>
+        <Text style={[styles.timerText, { color: isPaused ? theme.textSecondary : theme.text }]}>
           {Math.floor(duration / 60)}:{(duration % 60).toString().padStart(2, '0')}
         </Text>
         <Text style={[styles.recordingLabel, { color: theme.textSecondary }]}>
-          Recording...
+          {isPaused ? 'Paused' : 'Recording...'}
         </Text>
+        {children && <View style={styles.accessory}>{children}</View>}
       </View>
     </Animated.View>
   );
@@ -82,6 +86,9 @@ const styles = StyleSheet.create({
     marginTop: Spacing.sm,
     letterSpacing: 0.5,
   },
+  accessory: {
+    marginTop: Spacing.lg,
+  },
   pulseIndicator: {
     width: 12,
     height: 12,
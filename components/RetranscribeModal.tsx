@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Switch, View } from 'react-native';
+import { ThemedText } from './ThemedText';
+import { Button } from './ui/Button';
+import { Recording, TranscriptionOverrides } from '@/types';
+import { userSettingsService } from '@/services/userSettings';
+import { TRANSCRIPTION_LANGUAGES, TRANSCRIPTION_PROVIDERS } from '@/utils/constants';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
+
+interface RetranscribeModalProps {
+  recording: Recording | null; // The modal is hidden when null
+  onSubmit: (overrides: TranscriptionOverrides) => void;
+  onClose: () => void;
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}
+
+const Chip = ({ label, selected, onPress }: ChipProps) => {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+
+  return (
+    <Pressable
+      style={[styles.chip, { backgroundColor: selected ? theme.primary : theme.primary + '15' }]}
+      onPress={onPress}
+    >
+      <ThemedText style={[styles.chipText, { color: selected ? theme.accent : theme.primary }]}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+};
+
+// Choices start from the user's settings, so submitting unchanged simply runs it again
+export function RetranscribeModal({ recording, onSubmit, onClose }: RetranscribeModalProps) {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+  const [models, setModels] = useState<string[]>([]);
+  const [model, setModel] = useState('');
+  const [language, setLanguage] = useState('');
+  const [useDictionary, setUseDictionary] = useState(true);
+  const [translate, setTranslate] = useState(false);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    userSettingsService.getSettings().then(settings => {
+      const provider = TRANSCRIPTION_PROVIDERS.find(({ id }) => id === settings.transcriptionProvider)
+        ?? TRANSCRIPTION_PROVIDERS[0];
+      const currentModel = settings.transcriptionModel || provider.defaultModel;
+
+      setModels([...new Set([currentModel, ...provider.models])]);
+      setModel(currentModel);
+      setLanguage(recording.language ?? settings.transcriptionLanguage);
+      setUseDictionary(true);
+      setTranslate(settings.translateToEnglish);
+    });
+  }, [recording]);
+
+  return (
+    <Modal visible={recording !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={[styles.dialog, { backgroundColor: theme.card }]}>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <ThemedText style={styles.title}>Re-transcribe</ThemedText>
+
+            <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>MODEL</ThemedText>
+            <View style={styles.chipList}>
+              {models.map(option => (
+                <Chip key={option} label={option} selected={model === option} onPress={() => setModel(option)} />
+              ))}
+            </View>
+
+            <ThemedText style={[styles.groupTitle, { color: theme.textSecondary }]}>LANGUAGE</ThemedText>
+            <View style={styles.chipList}>
+              {TRANSCRIPTION_LANGUAGES.map(({ code, label }) => (
+                <Chip key={code} label={label} selected={language === code} onPress={() => setLanguage(code)} />
+              ))}
+            </View>
+
+            <View style={styles.switchRow}>
+              <ThemedText style={styles.switchLabel}>Use Custom Dictionary</ThemedText>
+              <Switch value={useDictionary} onValueChange={setUseDictionary} trackColor={{ true: theme.primary }} />
+            </View>
+
+            <View style={styles.switchRow}>
+              <ThemedText style={styles.switchLabel}>Translate to English</ThemedText>
+              <Switch value={translate} onValueChange={setTranslate} trackColor={{ true: theme.primary }} />
+            </View>
+
+            <ThemedText style={[styles.footnote, { color: theme.textSecondary }]}>
+              The current transcript is kept as an earlier version.
+            </ThemedText>
+
+            <View style={styles.actions}>
+              <Button title="Cancel" variant="secondary" size="small" onPress={onClose} />
+              <Button
+                title="Re-transcribe"
+                size="small"
+                onPress={() => onSubmit({ model, language, useDictionary, translate })}
+              />
+            </View>
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  dialog: {
+    maxHeight: '80%',
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+    marginBottom: Spacing.md,
+  },
+  groupTitle: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+    letterSpacing: 0.5,
+    marginBottom: Spacing.xs,
+  },
+  chipList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  chip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  switchLabel: {
+    fontSize: Typography.sizes.sm,
+  },
+  footnote: {
+    fontSize: Typography.sizes.xs,
+    marginTop: Spacing.sm,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+});
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { KeyboardAvoidingView, Modal, Platform, Pressable, StyleSheet, View } from 'react-native';
+import { ThemedText } from './ThemedText';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/Colors';
+
+interface SpeakerRenameModalProps {
+  speaker: string | null; // Speaker id being renamed; the modal is hidden when null
+  currentName: string;
+  onSave: (name: string) => void;
+  onClose: () => void;
+}
+
+// Alert.prompt only exists on iOS, so renaming uses a small modal everywhere
+export function SpeakerRenameModal({ speaker, currentName, onSave, onClose }: SpeakerRenameModalProps) {
+  const colorScheme = useColorScheme();
+  const theme = Colors[colorScheme ?? 'light'];
+  const [name, setName] = useState(currentName);
+
+  useEffect(() => {
+    setName(currentName);
+  }, [speaker, currentName]);
+
+  return (
+    <Modal visible={speaker !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.flex}
+      >
+        <Pressable style={styles.backdrop} onPress={onClose}>
+          <Pressable style={[styles.dialog, { backgroundColor: theme.card }]}>
+            <ThemedText style={styles.title}>Rename {speaker}</ThemedText>
+            <Input
+              value={name}
+              onChangeText={setName}
+              placeholder={speaker ?? ''}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="done"
+              onSubmitEditing={() => onSave(name)}
+            />
+            <View style={styles.actions}>
+              <Button title="Cancel" variant="secondary" size="small" onPress={onClose} />
+              <Button title="Save" size="small" onPress={() => onSave(name)} />
+            </View>
+          </Pressable>
+        </Pressable>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.xl,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  dialog: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+  },
+  title: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+    marginBottom: Spacing.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+});
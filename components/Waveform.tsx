@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { LIVE_WAVEFORM_BAR_COUNT } from '@/utils/constants';
+
+interface WaveformProps {
+  levels: number[];
+  color: string;
+  height?: number;
+  barWidth?: number;
+  barGap?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+const MIN_BAR_HEIGHT = 2;
+
+export function Waveform({ levels, color, height = 24, barWidth = 3, barGap = 2, style }: WaveformProps) {
+  return (
+    <View style={[styles.container, { height, gap: barGap }, style]}>
+      {levels.map((level, index) => (
+        <View
+          key={index}
+          style={[
+            styles.bar,
+            {
+              width: barWidth,
+              height: Math.max(MIN_BAR_HEIGHT, level * height),
+              backgroundColor: color,
+            },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+interface LiveWaveformProps {
+  subscribe: (listener: (levels: number[]) => void) => () => void;
+  color: string;
+  height?: number;
+}
+
+export function LiveWaveform({ subscribe, color, height = 48 }: LiveWaveformProps) {
+  const [levels, setLevels] = useState<number[]>([]);
+
+  useEffect(() => subscribe(setLevels), [subscribe]);
+
+  // Pad on the left so new samples scroll in from the right
+  const padded = [
+    ...new Array(Math.max(0, LIVE_WAVEFORM_BAR_COUNT - levels.length)).fill(0),
+    ...levels,
+  ];
+
+  return <Waveform levels={padded} color={color} height={height} />;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  bar: {
+    borderRadius: 2,
+  },
+});
@@ -32,14 +32,29 @@ const MAPPING = {
   'info.circle': 'info',
   'stop.fill': 'stop',
   'stop': 'stop',
+  'pause.fill': 'pause',
+  'play.fill': 'play-arrow',
   'trash': 'delete',
   'wifi.slash': 'wifi-off',
   'plus': 'add',
   'person.circle': 'account-circle',
   'person': 'person',
+  'person.2': 'people',
   'book': 'book',
   'xmark': 'close',
   'arrow.up.circle': 'upload',
+  'waveform': 'graphic-eq',
+  'checkmark': 'check',
+  'scissors': 'content-cut',
+  'speaker.slash': 'volume-off',
+  'square.and.arrow.down': 'file-download',
+  'bookmark.fill': 'bookmark',
+  'globe': 'language',
+  'server.rack': 'dns',
+  'wand.and.stars': 'auto-fix-high',
+  'checklist': 'checklist',
+  'calendar': 'event',
+  'text.alignleft': 'notes',
 } as IconMapping;
 
 /**
@@ -1,125 +1,383 @@
-import { useState, useRef } from 'react';
-import { Alert } from 'react-native';
-import { Audio } from 'expo-av';
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Platform } from 'react-native';
 import * as FileSystem from 'expo-file-system';
-import { generateRecordingId } from '@/utils/helpers';
-import { storageService } from '@/services/storage';
+import { useAudioRecorder } from 'expo-audio';
+import Toast from 'react-native-toast-message';
+import {
+  detectSilenceBounds,
+  downsampleLevels,
+  formatDuration,
+  generateRecordingId,
+  getAudioExtension,
+  getMaxSegmentMillis,
+  normalizeMetering,
+} from '@/utils/helpers';
+import {
+  AUDIO_SETTINGS,
+  LIVE_WAVEFORM_BAR_COUNT,
+  MAX_TRANSCRIPTION_FILE_BYTES,
+  METERING_FLOOR_DB,
+  METERING_INTERVAL,
+  PROVIDER_MAX_FILE_BYTES,
+  SILENCE_LEVEL_THRESHOLD,
+  SILENCE_TRIM_PADDING,
+  WAVEFORM_THUMBNAIL_BAR_COUNT,
+} from '@/utils/constants';
+import { storageService, RECORDINGS_DIR } from '@/services/storage';
 import { queueService } from '@/services/queue';
-import { mockAudioService } from '@/services/mockAudio';
-import { Recording } from '@/types';
+import { recorderService } from '@/services/recorder';
+import { ExpoAudioRecorder, getRecordingOptions } from '@/services/audio';
+import { userSettingsService } from '@/services/userSettings';
+import { AudioQuality, CaptureOptions, Recording, RecorderStatus, RecordingMarker, RecordingSegment } from '@/types';
+
+// Move a finished recorder file out of the cache into the recordings directory
+async function moveToRecordingsDir(uri: string, baseName: string): Promise<string> {
+  // Web recordings are blob: URLs with no file to move
+  if (Platform.OS === 'web') return uri;
+
+  const newUri = `${RECORDINGS_DIR}${baseName}.${getAudioExtension(uri) ?? 'm4a'}`;
+  await storageService.ensureRecordingsDir();
+
+  await FileSystem.moveAsync({
+    from: uri,
+    to: newUri,
+  });
+
+  return newUri;
+}
+
+type LevelsListener = (levels: number[]) => void;
 
 export function useRecording() {
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const recordingRef = useRef<Audio.Recording | null>(null);
+  const lowRecorder = useAudioRecorder(getRecordingOptions('LOW'));
+  const mediumRecorder = useAudioRecorder(getRecordingOptions('MEDIUM'));
+  const highRecorder = useAudioRecorder(getRecordingOptions('HIGH'));
+  const isRecorderActive = useRef(false);
+  const recordingQuality = useRef<AudioQuality>('HIGH');
   const startTime = useRef<number>(0);
+  const pausedAt = useRef<number | null>(null);
+  const pausedTotal = useRef<number>(0);
+  const levelSamples = useRef<number[]>([]);
+  const levelsListeners = useRef<Set<LevelsListener>>(new Set());
+  const segmentMillis = useRef<number>(0);
+  const segments = useRef<RecordingSegment[]>([]);
+  const rollPromise = useRef<Promise<void> | null>(null);
+  const silenceTimeoutMillis = useRef<number>(0);
+  const silentMillis = useRef<number>(0);
+  const isAutoStopping = useRef(false);
+  const markers = useRef<RecordingMarker[]>([]);
+  const maxDurationMillis = useRef<number>(0);
+  const captureTag = useRef<string | undefined>(undefined);
+  const appendTarget = useRef<Recording | null>(null);
+
+  // Levels are streamed to subscribers rather than held in state so the
+  // screen doesn't re-render on every metering update
+  const subscribeToLevels = useCallback((listener: LevelsListener) => {
+    levelsListeners.current.add(listener);
+    return () => {
+      levelsListeners.current.delete(listener);
+    };
+  }, []);
+
+  const handleRecordingStatus = (status: RecorderStatus) => {
+    if (maxDurationMillis.current > 0 && getActiveElapsed() >= maxDurationMillis.current) {
+      if (!isAutoStopping.current) {
+        isAutoStopping.current = true;
+        handleMaxDurationReached();
+      }
+      return;
+    }
+
+    if (status.metering !== undefined) {
+      const level = normalizeMetering(status.metering, METERING_FLOOR_DB);
+      levelSamples.current.push(level);
+      const recent = levelSamples.current.slice(-LIVE_WAVEFORM_BAR_COUNT);
+      levelsListeners.current.forEach(listener => listener(recent));
+
+      if (silenceTimeoutMillis.current > 0) {
+        silentMillis.current = level > SILENCE_LEVEL_THRESHOLD ? 0 : silentMillis.current + METERING_INTERVAL;
+        if (silentMillis.current >= silenceTimeoutMillis.current && !isAutoStopping.current) {
+          isAutoStopping.current = true;
+          handleSilenceTimeout();
+        }
+      }
+    }
+
+    // Roll to a new file once the current chunk reaches the segment length
+    if (segmentMillis.current > 0 && !rollPromise.current && status.durationMillis >= segmentMillis.current) {
+      rollPromise.current = rollSegment().finally(() => {
+        rollPromise.current = null;
+      });
+    }
+  };
+
+  // The quality preset is picked when recording starts, so have a recorder ready for each
+  useEffect(() => {
+    if (recorderService instanceof ExpoAudioRecorder) {
+      recorderService.setRecorders({ LOW: lowRecorder, MEDIUM: mediumRecorder, HIGH: highRecorder });
+    }
+  }, [lowRecorder, mediumRecorder, highRecorder]);
+
+  const startRecorder = () => recorderService.start({
+    quality: recordingQuality.current,
+    onStatus: handleRecordingStatus,
+    statusInterval: METERING_INTERVAL,
+  });
+
+  const rollSegment = async () => {
+    if (!isRecorderActive.current) return;
+
+    try {
+      isRecorderActive.current = false;
+      const { uri, durationMillis } = await recorderService.stop();
+
+      const index = segments.current.length;
+      const fileUri = await moveToRecordingsDir(uri, `recording_${Date.now()}_part${index + 1}`);
+      segments.current.push({ index, duration: Math.floor(durationMillis / 1000), fileUri });
+      console.log(`Rolled to recording segment ${index + 2}`);
+
+      await startRecorder();
+      isRecorderActive.current = true;
+    } catch (err) {
+      console.error('Failed to roll recording segment:', err);
+      setError('Failed to start next recording segment');
+    }
+  };
+
+  const handleSilenceTimeout = async () => {
+    const seconds = Math.round(silenceTimeoutMillis.current / 1000);
+    console.log(`No sound for ${seconds}s, stopping recording`);
+
+    await stopRecording();
+
+    Toast.show({
+      type: 'info',
+      text1: 'Recording Stopped',
+      text2: `No sound detected for ${seconds} seconds`,
+      position: 'top',
+      visibilityTime: 3000,
+    });
+  };
+
+  const handleMaxDurationReached = async () => {
+    const seconds = Math.round(maxDurationMillis.current / 1000);
+    console.log(`Reached requested duration of ${seconds}s, stopping recording`);
+
+    await stopRecording();
+
+    Toast.show({
+      type: 'info',
+      text1: 'Recording Stopped',
+      text2: `Stopped after ${formatDuration(seconds)} as requested`,
+      position: 'top',
+      visibilityTime: 3000,
+    });
+  };
+
+  // Wall-clock time spent recording, excluding any paused spans
+  const getActiveElapsed = () => {
+    const currentPause = pausedAt.current ? Date.now() - pausedAt.current : 0;
+    return Date.now() - startTime.current - pausedTotal.current - currentPause;
+  };
+
+  const resetRecordingState = () => {
+    setIsRecording(false);
+    setIsPaused(false);
+    isRecorderActive.current = false;
+    pausedAt.current = null;
+    pausedTotal.current = 0;
+    levelSamples.current = [];
+    segmentMillis.current = 0;
+    segments.current = [];
+    silenceTimeoutMillis.current = 0;
+    silentMillis.current = 0;
+    isAutoStopping.current = false;
+    markers.current = [];
+    maxDurationMillis.current = 0;
+    captureTag.current = undefined;
+    appendTarget.current = null;
+  };
 
-  const startRecording = async () => {
+  // Bookmark the current position, which keeps counting across segment rolls
+  const addMarker = (): RecordingMarker | null => {
+    if (!isRecording) return null;
+
+    const marker: RecordingMarker = { offset: Math.floor(getActiveElapsed() / 1000) };
+    markers.current.push(marker);
+    return marker;
+  };
+
+  // Labels are picked after the tap, so they're attached to the marker it created
+  const labelMarker = (marker: RecordingMarker, label: string) => {
+    if (markers.current.includes(marker)) {
+      marker.label = label;
+    }
+  };
+
+  const startRecording = async ({ tag, maxDurationSeconds, appendTo }: CaptureOptions = {}) => {
     try {
       setError(null);
       
       // Request permissions
-      const { status } = await Audio.requestPermissionsAsync();
-      if (status !== 'granted') {
+      const hasPermission = await recorderService.requestPermissions();
+      if (!hasPermission) {
         setError('Microphone permission denied');
         return;
       }
 
-      // Configure audio
-      await Audio.setAudioModeAsync({
-        allowsRecordingIOS: true,
-        playsInSilentModeIOS: true,
-      });
+      const { audioQuality, segmentMinutes, silenceTimeoutSeconds } = await userSettingsService.getSettings();
+      levelSamples.current = [];
+      segments.current = [];
+      // Split even when the setting is off, so no chunk is too large to transcribe.
+      // Web recordings (webm, or fragmented mp4) can't be split on the server.
+      const maxFileBytes = Platform.OS === 'web' ? PROVIDER_MAX_FILE_BYTES : MAX_TRANSCRIPTION_FILE_BYTES;
+      const maxSegmentMillis = getMaxSegmentMillis(AUDIO_SETTINGS[audioQuality].bitRate, maxFileBytes);
+      segmentMillis.current = segmentMinutes > 0
+        ? Math.min(segmentMinutes * 60 * 1000, maxSegmentMillis)
+        : maxSegmentMillis;
+      silenceTimeoutMillis.current = silenceTimeoutSeconds * 1000;
+      silentMillis.current = 0;
+      isAutoStopping.current = false;
+      markers.current = [];
+      maxDurationMillis.current = (maxDurationSeconds ?? 0) * 1000;
+      captureTag.current = tag;
+      appendTarget.current = appendTo ?? null;
+      recordingQuality.current = audioQuality;
 
-      // Start recording or mock recording for simulator
-      if (mockAudioService.isSimulator()) {
-        console.log('Starting mock recording on simulator');
-        await mockAudioService.startMockRecording();
-        setIsRecording(true);
-        startTime.current = Date.now();
-      } else {
-        const { recording } = await Audio.Recording.createAsync(
-          Audio.RecordingOptionsPresets.HIGH_QUALITY
-        );
-        
-        recordingRef.current = recording;
-        setIsRecording(true);
-        startTime.current = Date.now();
-      }
+      await startRecorder();
+
+      isRecorderActive.current = true;
+      setIsRecording(true);
+      startTime.current = Date.now();
+      pausedAt.current = null;
+      pausedTotal.current = 0;
     } catch (err) {
       console.error('Failed to start recording:', err);
       setError('Failed to start recording');
     }
   };
 
+  const pauseRecording = async () => {
+    if (!isRecording || isPaused) return;
+
+    try {
+      // Let an in-flight segment roll finish so we pause the new recorder
+      await rollPromise.current;
+
+      if (!isRecorderActive.current) {
+        throw new Error('No recording in progress');
+      }
+      await recorderService.pause();
+
+      pausedAt.current = Date.now();
+      setIsPaused(true);
+    } catch (err) {
+      console.error('Failed to pause recording:', err);
+      setError('Failed to pause recording');
+    }
+  };
+
+  const resumeRecording = async () => {
+    if (!isRecording || !isPaused) return;
+
+    try {
+      if (!isRecorderActive.current) {
+        throw new Error('No recording in progress');
+      }
+      await recorderService.resume();
+
+      if (pausedAt.current) {
+        pausedTotal.current += Date.now() - pausedAt.current;
+        pausedAt.current = null;
+      }
+      setIsPaused(false);
+    } catch (err) {
+      console.error('Failed to resume recording:', err);
+      setError('Failed to resume recording');
+    }
+  };
+
   const stopRecording = async () => {
     try {
-      const recordingDuration = Math.floor((Date.now() - startTime.current) / 1000);
-      let recordingData: Recording;
-
-      if (mockAudioService.isSimulator()) {
-        console.log('Stopping mock recording on simulator');
-        
-        // Create a mock recording
-        const mockFileUri = `${FileSystem.documentDirectory}recordings/mock_${Date.now()}.m4a`;
-        
-        recordingData = {
-          id: generateRecordingId(),
-          timestamp: new Date(),
-          duration: recordingDuration,
-          fileUri: mockFileUri,
-          processingState: 'recorded',
-          processingStep: 0,
-          retryCount: 0,
-          uploadProgress: 0,
-          lastStateChangeAt: new Date(),
-        };
-      } else {
-        if (!recordingRef.current) {
-          throw new Error('No recording in progress');
-        }
+      await rollPromise.current;
 
-        // Stop the actual recording
-        await recordingRef.current.stopAndUnloadAsync();
-        const uri = recordingRef.current.getURI();
-        
-        if (!uri) {
-          throw new Error('Failed to get recording URI');
-        }
+      const recordingDuration = Math.floor(getActiveElapsed() / 1000);
+
+      // A failed segment roll leaves no active recorder, but earlier chunks are still saved
+      if (!isRecorderActive.current && segments.current.length === 0) {
+        throw new Error('No recording in progress');
+      }
 
-        // Get recording status for actual duration
-        const status = await recordingRef.current.getStatusAsync();
-        const actualDuration = Math.floor((status.durationMillis || 0) / 1000);
+      if (isRecorderActive.current) {
+        isRecorderActive.current = false;
+        const { uri, durationMillis } = await recorderService.stop();
+        const index = segments.current.length;
 
         // Move file to permanent location
-        const fileName = `recording_${Date.now()}.m4a`;
-        const newUri = `${FileSystem.documentDirectory}recordings/${fileName}`;
-        
-        // Ensure directory exists
-        const dirInfo = await FileSystem.getInfoAsync(`${FileSystem.documentDirectory}recordings/`);
-        if (!dirInfo.exists) {
-          await FileSystem.makeDirectoryAsync(`${FileSystem.documentDirectory}recordings/`, { intermediates: true });
-        }
-        
-        // Move the file
-        await FileSystem.moveAsync({
-          from: uri,
-          to: newUri,
-        });
+        const baseName = index === 0
+          ? `recording_${Date.now()}`
+          : `recording_${Date.now()}_part${index + 1}`;
+        const newUri = await moveToRecordingsDir(uri, baseName);
 
-        recordingData = {
-          id: generateRecordingId(),
-          timestamp: new Date(),
-          duration: actualDuration,
+        segments.current.push({
+          index,
+          duration: Math.floor(durationMillis / 1000) || (index === 0 ? recordingDuration : 0),
           fileUri: newUri,
-          processingState: 'recorded',
-          processingStep: 0,
-          retryCount: 0,
-          uploadProgress: 0,
-          lastStateChangeAt: new Date(),
-        };
+        });
+      }
+
+      const chunks = segments.current;
+
+      if (appendTarget.current) {
+        try {
+          await queueService.appendToRecording(appendTarget.current, chunks, markers.current);
+          resetRecordingState();
+          return;
+        } catch (err) {
+          // Keep the clip rather than lose it
+          console.error('Failed to add to recording:', err);
+          Toast.show({
+            type: 'error',
+            text1: 'Could Not Add to Recording',
+            text2: 'Saved as a new recording instead',
+            position: 'top',
+            visibilityTime: 4000,
+          });
+        }
       }
 
+      const isSegmented = chunks.length > 1;
+      const duration = chunks.reduce((total, chunk) => total + chunk.duration, 0);
+
+      // Recordings can't be re-encoded on device, so leading/trailing silence is
+      // recorded as trim points; transcribe-audio cuts it off before transcribing
+      const silenceBounds = detectSilenceBounds(
+        levelSamples.current,
+        duration,
+        SILENCE_LEVEL_THRESHOLD,
+        SILENCE_TRIM_PADDING
+      );
+
+      const recordingData: Recording = {
+        id: generateRecordingId(),
+        timestamp: new Date(),
+        duration,
+        fileUri: chunks[0].fileUri!,
+        waveform: downsampleLevels(levelSamples.current, WAVEFORM_THUMBNAIL_BAR_COUNT),
+        segments: isSegmented ? [...chunks] : undefined,
+        ...silenceBounds,
+        markers: markers.current.length > 0 ? [...markers.current] : undefined,
+        captureTag: captureTag.current,
+        processingState: 'recorded',
+        processingStep: 0,
+        retryCount: 0,
+        uploadProgress: 0,
+        lastStateChangeAt: new Date(),
+      };
+
       // Save to local storage
       await storageService.saveRecording(recordingData);
       
@@ -127,20 +385,24 @@ export function useRecording() {
       await queueService.enqueueRecording(recordingData);
 
       // Reset state
-      setIsRecording(false);
-      recordingRef.current = null;
+      resetRecordingState();
     } catch (err) {
       console.error('Failed to stop recording:', err);
       setError('Failed to save recording');
-      setIsRecording(false);
-      recordingRef.current = null;
+      resetRecordingState();
     }
   };
 
   return {
     isRecording,
+    isPaused,
     error,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
+    addMarker,
+    labelMarker,
+    subscribeToLevels,
   };
 }
\ No newline at end of file
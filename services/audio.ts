@@ -1,22 +1,72 @@
-import { useAudioRecorder, RecordingPresets, AudioModule } from 'expo-audio';  // For recording only
+import {
+  AudioRecorder,
+  RecordingOptions,
+  RecordingPresets,
+  createAudioPlayer,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+} from 'expo-audio';
 import * as FileSystem from 'expo-file-system';
-import { Recording } from '@/types';
-import { generateRecordingId } from '@/utils/helpers';
+import { AudioQuality, RecordedAudio, Recorder, RecorderStartOptions } from '@/types';
+import { AUDIO_SETTINGS } from '@/utils/constants';
 
-class AudioService {
-  private audioRecorder: ReturnType<typeof useAudioRecorder> | null = null;
-  private recordingStartTime: number = 0;
-  private currentRecordingUri: string | null = null;
+const DURATION_LOAD_TIMEOUT = 10000;
+
+// Apply the user's quality preset on top of expo-audio's m4a/AAC preset
+export function getRecordingOptions(quality: AudioQuality): RecordingOptions {
+  return {
+    ...RecordingPresets.HIGH_QUALITY,
+    ...AUDIO_SETTINGS[quality],
+    isMeteringEnabled: true,
+  };
+}
+
+// Load the file without playing it to read its real duration in seconds
+export async function getPlayerDurationAsync(uri: string): Promise<number> {
+  const player = createAudioPlayer({ uri });
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const duration = await new Promise<number>((resolve, reject) => {
+      timeout = setTimeout(() => reject(new Error('Could not read audio duration')), DURATION_LOAD_TIMEOUT);
+
+      if (player.isLoaded && player.duration > 0) {
+        resolve(player.duration);
+        return;
+      }
+      player.addListener('playbackStatusUpdate', status => {
+        if (status.isLoaded && status.duration > 0) {
+          resolve(status.duration);
+        }
+      });
+    });
+
+    return Math.floor(duration);
+  } finally {
+    clearTimeout(timeout);
+    // Removing the player also drops its listeners
+    player.remove();
+  }
+}
+
+export class ExpoAudioRecorder implements Recorder {
+  // One per quality preset, created with useAudioRecorder by the recording hook
+  private recorders: Record<AudioQuality, AudioRecorder> | null = null;
+  private recorder: AudioRecorder | null = null;
+  private statusTimer: ReturnType<typeof setInterval> | null = null;
+
+  setRecorders(recorders: Record<AudioQuality, AudioRecorder>) {
+    this.recorders = recorders;
+  }
 
   async requestPermissions(): Promise<boolean> {
     try {
-      const status = await AudioModule.requestRecordingPermissionsAsync();
-      console.log('Audio permission status:', status);
-      
+      const status = await requestRecordingPermissionsAsync();
+
       if (!status.granted) {
         console.log('Microphone permission denied. Status:', status);
       }
-      
+
       return status.granted;
     } catch (error) {
       console.error('Failed to request audio permissions:', error);
@@ -24,147 +74,87 @@ class AudioService {
     }
   }
 
-  setRecorder(recorder: ReturnType<typeof useAudioRecorder>) {
-    this.audioRecorder = recorder;
-  }
+  async start({ quality, onStatus, statusInterval }: RecorderStartOptions): Promise<void> {
+    if (this.recorder) {
+      throw new Error('Recording already in progress');
+    }
 
-  async startRecording(): Promise<string> {
-    if (!this.audioRecorder) {
+    await setAudioModeAsync({
+      allowsRecording: true,
+      playsInSilentMode: true,
+    });
+
+    if (!this.recorders) {
       throw new Error('Audio recorder not initialized');
     }
 
-    try {
-      // Request permissions first
-      const hasPermission = await this.requestPermissions();
-      if (!hasPermission) {
-        throw new Error('Microphone permission denied. Please enable microphone access in Settings.');
-      }
+    // Each start prepares a new file, so one recorder serves every chunk
+    const recorder = this.recorders[quality];
+    await recorder.prepareToRecordAsync();
+    recorder.record();
+    this.recorder = recorder;
 
-      console.log('Starting recording...');
-      
-      // Try to reset the recorder if it has a URI but isn't recording
-      if (this.audioRecorder.uri && !this.audioRecorder.isRecording) {
-        console.log('Resetting recorder state...');
-        try {
-          await this.audioRecorder.stop();
-        } catch (e) {
-          // Ignore errors when stopping a non-recording session
-          console.log('Reset error (ignored):', e);
-        }
-      }
-      
-      // Prepare recording with options
-      // The useAudioRecorder hook already uses RecordingPresets.HIGH_QUALITY
-      // So we just need to prepare without additional options
-      const prepared = await this.audioRecorder.prepareToRecordAsync({
-        keepAudioActiveHint: true,
-      });
-      
-      console.log('Prepared:', prepared);
-      
-      // Start recording
-      await this.audioRecorder.record();
-      
-      // Wait a bit to let recording start
-      await new Promise(resolve => setTimeout(resolve, 100));
-      
-      console.log('Recorder state after start:', {
-        isRecording: this.audioRecorder.isRecording,
-        uri: this.audioRecorder.uri
-      });
-      
-      // On simulator, the recording might work even if isRecording is false
-      // so we'll proceed if we have a URI
-      
-      console.log('Recording started successfully');
-      
-      this.recordingStartTime = Date.now();
-      const recordingId = generateRecordingId();
-      
-      return recordingId;
-    } catch (error) {
-      console.error('Failed to start recording:', error);
-      
-      // Provide more specific error messages
-      if (error instanceof Error) {
-        if (error.message.includes('permission')) {
-          throw new Error('Microphone permission required. Please enable it in Settings.');
-        } else if (error.message.includes('simulator') || error.message.includes('recording state')) {
-          throw new Error('Audio recording issue detected. On iOS Simulator, try using a real device for best results.');
-        }
+    // expo-audio only emits events when a recording finishes, so poll for levels
+    this.statusTimer = setInterval(() => {
+      const { isRecording, durationMillis, metering } = recorder.getStatus();
+      if (isRecording) {
+        onStatus({ durationMillis, metering });
       }
-      
-      throw error;
+    }, statusInterval);
+  }
+
+  async pause(): Promise<void> {
+    if (!this.recorder) {
+      throw new Error('No recording in progress');
     }
+    this.recorder.pause();
   }
 
-  async stopRecording(): Promise<{ uri: string; duration: number } | null> {
-    if (!this.audioRecorder) {
-      return null;
+  async resume(): Promise<void> {
+    if (!this.recorder) {
+      throw new Error('No recording in progress');
     }
+    this.recorder.record();
+  }
 
-    try {
-      const duration = Math.max((Date.now() - this.recordingStartTime) / 1000, 1);
-      
-      // Stop recording and get the result
-      const result = await this.audioRecorder.stop();
-      console.log('Recording stopped, result:', result);
-      
-      const uri = this.audioRecorder.uri;
-      console.log('Recording URI:', uri);
-      
-      this.recordingStartTime = 0;
-
-      if (!uri) {
-        throw new Error('No recording URI available');
-      }
+  async stop(): Promise<RecordedAudio> {
+    const recorder = this.recorder;
+    if (!recorder) {
+      throw new Error('No recording in progress');
+    }
 
-      // Give the file system a moment to finalize the file
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Verify the file exists and has content
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      console.log('Final file info:', fileInfo);
-      
-      // On simulator, files might be smaller, so be more lenient
-      if (!fileInfo.exists) {
-        throw new Error('Recording file does not exist');
-      }
-      
-      // Check if we're on iOS Simulator (file is exactly 28 bytes - empty m4a header)
-      if (fileInfo.size === 28) {
-        console.warn('iOS Simulator detected - audio recording not supported');
-        throw new Error('Audio recording is not supported on iOS Simulator. Please use a real device or try the Android emulator.');
-      }
-      
-      if (fileInfo.size < 100) {
-        throw new Error(`Recording file is too small (${fileInfo.size} bytes). Try recording for longer.`);
-      }
+    this.clearStatusTimer();
+    this.recorder = null;
 
-      this.currentRecordingUri = uri;
-      return { uri, duration };
-    } catch (error) {
-      console.error('Failed to stop recording:', error);
-      this.recordingStartTime = 0;
-      throw error;
+    // The recorder's duration doesn't count paused time, and resets once stopped.
+    // The recorder is owned by the hook, which releases it on unmount.
+    const { durationMillis } = recorder.getStatus();
+    await recorder.stop();
+    const uri = recorder.uri;
+
+    if (!uri) {
+      throw new Error('No recording URI available');
     }
-  }
 
-  async deleteRecording(uri: string): Promise<void> {
-    try {
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (fileInfo.exists) {
-        await FileSystem.deleteAsync(uri);
-      }
-    } catch (error) {
-      console.error('Failed to delete recording:', error);
-      throw error;
+    const fileInfo = await FileSystem.getInfoAsync(uri);
+    if (!fileInfo.exists) {
+      throw new Error('Recording file does not exist');
     }
+    if (fileInfo.size < 100) {
+      throw new Error(`Recording file is too small (${fileInfo.size} bytes). Try recording for longer.`);
+    }
+
+    return { uri, durationMillis };
   }
 
-  isRecording(): boolean {
-    return this.audioRecorder?.isRecording ?? false;
+  getDurationAsync(uri: string): Promise<number> {
+    return getPlayerDurationAsync(uri);
   }
-}
 
-export const audioService = new AudioService();
\ No newline at end of file
+  private clearStatusTimer() {
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+  }
+}
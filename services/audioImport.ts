@@ -0,0 +1,90 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { Recording } from '@/types';
+import { AUDIO_CONTENT_TYPES } from '@/utils/constants';
+import { formatFileSize, generateRecordingId, getAudioExtension, getMaxTranscriptionBytes } from '@/utils/helpers';
+import { recorderService } from './recorder';
+import { storageService, RECORDINGS_DIR } from './storage';
+import { queueService } from './queue';
+
+export interface ImportResult {
+  imported: Recording[];
+  skipped: { name: string; reason: string }[];
+}
+
+class AudioImportService {
+  // Let the user pick audio files and push each one through the normal recording pipeline
+  async pickAndImport(): Promise<ImportResult> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: Object.values(AUDIO_CONTENT_TYPES),
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled) {
+      return { imported: [], skipped: [] };
+    }
+
+    const imported: Recording[] = [];
+    const skipped: ImportResult['skipped'] = [];
+
+    for (const asset of result.assets) {
+      try {
+        imported.push(await this.importFile(asset));
+      } catch (error) {
+        console.error(`Failed to import ${asset.name}:`, error);
+        skipped.push({
+          name: asset.name,
+          reason: error instanceof Error ? error.message : 'Unknown import error',
+        });
+      }
+    }
+
+    return { imported, skipped };
+  }
+
+  private async importFile(asset: DocumentPicker.DocumentPickerAsset): Promise<Recording> {
+    const extension = getAudioExtension(asset.name) ?? getAudioExtension(asset.uri);
+    if (!extension) {
+      throw new Error('Unsupported file type. Use m4a, mp3, wav or webm.');
+    }
+
+    // Checked before queueing, since a file too large to transcribe would only fail later
+    const maxBytes = getMaxTranscriptionBytes(extension);
+    if (asset.size !== undefined && asset.size > maxBytes) {
+      throw new Error(
+        `File is too large to transcribe (${formatFileSize(asset.size)}, limit ${formatFileSize(maxBytes)} for ${extension}).` +
+        (extension === 'webm' ? ' Convert it to m4a, mp3 or wav to import it.' : '')
+      );
+    }
+
+    await storageService.ensureRecordingsDir();
+
+    // Copy into the recordings directory so the file outlives the picker cache
+    const id = generateRecordingId();
+    const fileUri = `${RECORDINGS_DIR}imported_${id}.${extension}`;
+    await FileSystem.copyAsync({ from: asset.uri, to: fileUri });
+
+    const duration = await recorderService.getDurationAsync(fileUri);
+
+    const recording: Recording = {
+      id,
+      timestamp: asset.lastModified ? new Date(asset.lastModified) : new Date(),
+      duration,
+      fileUri,
+      processingState: 'recorded',
+      processingStep: 0,
+      retryCount: 0,
+      uploadProgress: 0,
+      lastStateChangeAt: new Date(),
+    };
+
+    await storageService.saveRecording(recording);
+    await queueService.enqueueRecording(recording);
+
+    console.log(`Imported ${asset.name} as recording ${recording.id}`);
+    return recording;
+  }
+}
+
+export const audioImportService = new AudioImportService();
@@ -1,44 +1,135 @@
-import { Platform } from 'react-native';
-import * as Device from 'expo-device';
+import * as FileSystem from 'expo-file-system';
+import { RecordedAudio, Recorder, RecorderStartOptions } from '@/types';
+import { getPlayerDurationAsync } from './audio';
 
-class MockAudioService {
-  private mockRecordingId: string | null = null;
-  private mockStartTime: number = 0;
+// The fixture is a quiet 440 Hz tone as 8 kHz mono 16-bit PCM
+const FIXTURE_SAMPLE_RATE = 8000;
+const FIXTURE_TONE_HZ = 440;
+const FIXTURE_AMPLITUDE = 0.2;
+const WAV_HEADER_SIZE = 44;
 
-  isSimulator(): boolean {
-    return !Device.isDevice;
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
   }
+}
 
-  async startMockRecording(): Promise<string> {
-    console.log('🎤 Mock Recording: Started (Simulator Mode)');
-    this.mockStartTime = Date.now();
-    this.mockRecordingId = `mock-${Date.now()}`;
-    return this.mockRecordingId;
-  }
-
-  async stopMockRecording(): Promise<{ transcript: string; duration: number }> {
-    const duration = Math.floor((Date.now() - this.mockStartTime) / 1000);
-    console.log(`🎤 Mock Recording: Stopped after ${duration} seconds`);
-    
-    // Generate mock transcript based on duration
-    const mockTranscripts = [
-      "This is a test recording from the iOS Simulator.",
-      "Remember to test on a real device for actual audio recording.",
-      "The app is working correctly, but audio recording requires a physical device.",
-      "Meeting notes: Discussed the quarterly goals and project timeline.",
-      "Reminder to follow up with the team about the design review.",
-    ];
-    
-    const transcript = mockTranscripts[Math.floor(Math.random() * mockTranscripts.length)];
-    
-    this.mockRecordingId = null;
-    this.mockStartTime = 0;
-    
-    return {
-      transcript,
-      duration,
-    };
+function createFixtureWav(seconds: number): Uint8Array {
+  const sampleCount = seconds * FIXTURE_SAMPLE_RATE;
+  const dataSize = sampleCount * 2;
+  const view = new DataView(new ArrayBuffer(WAV_HEADER_SIZE + dataSize));
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, FIXTURE_SAMPLE_RATE, true);
+  view.setUint32(28, FIXTURE_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = Math.sin((2 * Math.PI * FIXTURE_TONE_HZ * i) / FIXTURE_SAMPLE_RATE);
+    view.setInt16(WAV_HEADER_SIZE + i * 2, Math.round(sample * FIXTURE_AMPLITUDE * 0x7fff), true);
+  }
+
+  return new Uint8Array(view.buffer);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Build the string in chunks to stay under the engine's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
+  return btoa(binary);
 }
 
-export const mockAudioService = new MockAudioService();
\ No newline at end of file
+// Stands in for the microphone on simulators, where recording isn't supported.
+// Output depends only on how long it ran, so runs of the same length match.
+export class MockRecorder implements Recorder {
+  private startedAt: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedTotal = 0;
+  private tick = 0;
+  private statusTimer: ReturnType<typeof setInterval> | null = null;
+
+  async requestPermissions(): Promise<boolean> {
+    return true;
+  }
+
+  async start({ onStatus, statusInterval }: RecorderStartOptions): Promise<void> {
+    if (this.startedAt !== null) {
+      throw new Error('Recording already in progress');
+    }
+
+    console.log('🎤 Mock Recording: Started (Simulator Mode)');
+    this.startedAt = Date.now();
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+    this.tick = 0;
+
+    this.statusTimer = setInterval(() => {
+      if (this.pausedAt !== null) return;
+
+      // A slow swell between -35 and -15 dBFS, loud enough never to count as silence
+      const metering = -25 + 10 * Math.sin(this.tick / 5);
+      this.tick++;
+      onStatus({ durationMillis: this.getDurationMillis(), metering });
+    }, statusInterval);
+  }
+
+  async pause(): Promise<void> {
+    if (this.startedAt === null) {
+      throw new Error('No recording in progress');
+    }
+    this.pausedAt = Date.now();
+  }
+
+  async resume(): Promise<void> {
+    if (this.startedAt === null) {
+      throw new Error('No recording in progress');
+    }
+    if (this.pausedAt !== null) {
+      this.pausedTotal += Date.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+  }
+
+  async stop(): Promise<RecordedAudio> {
+    if (this.startedAt === null) {
+      throw new Error('No recording in progress');
+    }
+
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    const seconds = Math.max(1, Math.round(this.getDurationMillis() / 1000));
+    this.startedAt = null;
+    console.log(`🎤 Mock Recording: Stopped after ${seconds} seconds`);
+
+    const uri = `${FileSystem.cacheDirectory}mock_${Date.now()}.wav`;
+    await FileSystem.writeAsStringAsync(uri, toBase64(createFixtureWav(seconds)), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+
+    return { uri, durationMillis: seconds * 1000 };
+  }
+
+  getDurationAsync(uri: string): Promise<number> {
+    return getPlayerDurationAsync(uri);
+  }
+
+  private getDurationMillis(): number {
+    if (this.startedAt === null) return 0;
+    const currentPause = this.pausedAt !== null ? Date.now() - this.pausedAt : 0;
+    return Date.now() - this.startedAt - this.pausedTotal - currentPause;
+  }
+}
@@ -1,5 +1,6 @@
 import { Recording, DatabaseRecording } from '@/types';
 import { supabaseService } from './supabase';
+import { databaseSegmentsToSegments, databaseTagsToTags } from '@/utils/helpers';
 
 type RecordingChangeHandler = (recordings: Recording[]) => void;
 
@@ -49,7 +50,7 @@ class PollingService {
 
       const { data, error } = await client
         .from('recordings')
-        .select('*')
+        .select('*, recording_tags(tags(name))')
         .eq('user_id', user.id)
         .order('timestamp', { ascending: false })
         .limit(50); // Get latest 50 recordings
@@ -86,13 +87,30 @@ class PollingService {
       fileUri: dbRecord.audio_url || '',
       transcript: dbRecord.transcript,
       correctedTranscript: dbRecord.corrected_transcript,
+      translatedTranscript: dbRecord.translated_transcript ?? undefined,
+      transcriptSegments: dbRecord.transcript_segments ?? undefined,
+      recipeOutputs: dbRecord.recipe_outputs ?? undefined,
+      summary: dbRecord.summary ?? undefined,
+      keyPoints: dbRecord.key_points ?? undefined,
+      tags: databaseTagsToTags(dbRecord.recording_tags),
       title: dbRecord.title,
+      waveform: dbRecord.waveform,
+      segments: databaseSegmentsToSegments(dbRecord.segments),
+      trimStart: dbRecord.trim_start ?? undefined,
+      trimEnd: dbRecord.trim_end ?? undefined,
+      markers: dbRecord.markers ?? undefined,
+      captureTag: dbRecord.capture_tag ?? undefined,
+      language: dbRecord.language ?? undefined,
+      speakerNames: dbRecord.speaker_names ?? undefined,
+      promptTerms: dbRecord.prompt_terms ?? undefined,
       processingState: dbRecord.processing_state,
       processingStep: dbRecord.processing_step,
       processingError: dbRecord.processing_error,
       retryCount: dbRecord.retry_count,
       nextRetryAt: dbRecord.next_retry_at ? new Date(dbRecord.next_retry_at) : undefined,
       uploadProgress: dbRecord.upload_progress,
+      transcriptionChunksDone: dbRecord.transcription_chunks_done ?? undefined,
+      transcriptionChunksTotal: dbRecord.transcription_chunks_total ?? undefined,
       transcriptionJobId: dbRecord.transcription_job_id,
       lastStateChangeAt: new Date(dbRecord.last_state_change_at),
       
@@ -141,7 +159,8 @@ class PollingService {
       if (oldRec.processingState !== newRec.processingState ||
           oldRec.transcript !== newRec.transcript ||
           oldRec.title !== newRec.title ||
-          oldRec.uploadProgress !== newRec.uploadProgress) {
+          oldRec.uploadProgress !== newRec.uploadProgress ||
+          oldRec.transcriptionChunksDone !== newRec.transcriptionChunksDone) {
         return true;
       }
     }
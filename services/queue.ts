@@ -1,15 +1,39 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo from '@react-native-community/netinfo';
 import Toast from 'react-native-toast-message';
-import { Recording, ProcessingState, WebhookPayload, DatabaseRecording } from '@/types';
+import {
+  Recording,
+  RecordingMarker,
+  RecordingSegment,
+  ProcessingState,
+  WebhookPayload,
+  DatabaseRecording,
+  DatabaseRecordingSegment,
+  DatabaseTranscriptVersion,
+  SpeakerTurn,
+  TranscriptSegment,
+  TranscriptionOverrides,
+} from '@/types';
 import { STORAGE_KEYS, MAX_RETRY_COUNT } from '@/utils/constants';
-import { getExponentialBackoffDelay } from '@/utils/helpers';
+import {
+  assignSpeakers,
+  formatSpeakerTranscript,
+  getExponentialBackoffDelay,
+  getLocalFileNames,
+  getSpeakerName,
+  getSpeakers,
+  mergeChunkSpeakerTurns,
+  mergeTranscriptSegments,
+  stitchSegmentTranscripts,
+  trimTranscriptSegments,
+} from '@/utils/helpers';
 import { storageService } from './storage';
 import { supabaseService } from './supabase';
-import { groqService } from './groq';
+import { TranscribeOptions, transcriptionService } from './transcription';
 import { userSettingsService } from './userSettings';
-import { mockAudioService } from './mockAudio';
 import { realtimeService } from './realtime';
+import { taskService } from './tasks';
+import { tagService } from './tags';
 import * as FileSystem from 'expo-file-system';
 
 interface QueueProcessor {
@@ -89,6 +113,13 @@ class QueueService {
                 user_id: user.id,
                 timestamp: recording.timestamp.toISOString(),
                 duration: recording.duration,
+                waveform: recording.waveform ?? null,
+                segments: this.toDatabaseSegments(recording),
+                trim_start: recording.trimStart ?? null,
+                trim_end: recording.trimEnd ?? null,
+                markers: recording.markers ?? null,
+                capture_tag: recording.captureTag ?? null,
+                local_file_names: getLocalFileNames(recording),
                 processing_state: 'recorded',
                 processing_step: 0,
                 retry_count: 0,
@@ -124,6 +155,182 @@ class QueueService {
     }
   }
 
+  // Adds a newly recorded clip to the end of an existing recording as extra
+  // segments. Chunks already uploaded and transcribed are kept, so resetting the
+  // recording to 'recorded' only uploads and transcribes the new clip, then
+  // re-stitches the transcript, regenerates the title and resends the webhook.
+  async appendToRecording(
+    target: Recording,
+    clipSegments: RecordingSegment[],
+    clipMarkers: RecordingMarker[] = []
+  ): Promise<void> {
+    const netInfo = await NetInfo.fetch();
+    if (!netInfo.isConnected) {
+      throw new Error('Adding to a recording requires an internet connection');
+    }
+
+    const client = await supabaseService.getClient();
+    const { data: dbRecording, error: fetchError } = await client
+      .from('recordings')
+      .select('*')
+      .eq('id', target.id)
+      .single();
+
+    if (fetchError || !dbRecording) {
+      throw new Error('Recording to add to was not found');
+    }
+
+    const localRecordings = await storageService.getRecordings();
+    const localRecording = localRecordings.find(r => r.id === target.id);
+    const localFileUri = localRecording?.fileUri && !localRecording.fileUri.startsWith('http')
+      ? localRecording.fileUri
+      : undefined;
+
+    // A recording that wasn't split becomes segment 0, keeping its upload and transcript
+    const baseDbSegments: DatabaseRecordingSegment[] = dbRecording.segments?.length
+      ? dbRecording.segments
+      : [{
+          index: 0,
+          duration: dbRecording.duration,
+          audio_url: dbRecording.audio_url ?? undefined,
+          transcript: dbRecording.transcript ?? undefined,
+          transcript_segments: dbRecording.transcript_segments ?? undefined,
+        }];
+    const baseLocalSegments: RecordingSegment[] = localRecording?.segments?.length
+      ? localRecording.segments
+      : [{ index: 0, duration: dbRecording.duration, fileUri: localFileUri }];
+
+    const baseDuration = baseDbSegments.reduce((total, segment) => total + segment.duration, 0);
+    const appendedSegments: RecordingSegment[] = clipSegments.map((segment, i) => ({
+      ...segment,
+      index: baseDbSegments.length + i,
+      continuation: i === 0 ? true : undefined,
+    }));
+    const segments = [...baseLocalSegments, ...appendedSegments];
+    const dbSegments: DatabaseRecordingSegment[] = [
+      ...baseDbSegments,
+      ...appendedSegments.map(segment => ({
+        index: segment.index,
+        duration: segment.duration,
+        continuation: segment.continuation,
+      })),
+    ];
+    const duration = baseDuration + clipSegments.reduce((total, segment) => total + segment.duration, 0);
+    const markers = [
+      ...(dbRecording.markers || []),
+      ...clipMarkers.map(marker => ({ ...marker, offset: marker.offset + baseDuration })),
+    ];
+
+    // Trailing silence was detected on the original audio only
+    const localUpdates: Partial<Recording> = {
+      duration,
+      segments,
+      markers: markers.length > 0 ? markers : undefined,
+      trimEnd: undefined,
+      processingState: 'recorded',
+    };
+    if (localRecording) {
+      await storageService.updateRecording(target.id, localUpdates);
+    } else {
+      await storageService.saveRecording({ ...target, ...localUpdates });
+    }
+
+    const { error: updateError } = await client
+      .from('recordings')
+      .update({
+        duration,
+        segments: dbSegments,
+        markers: markers.length > 0 ? markers : null,
+        local_file_names: [...(dbRecording.local_file_names || []), ...getLocalFileNames({ segments: clipSegments })],
+        trim_end: null,
+        processing_state: 'recorded',
+        processing_error: null,
+        retry_count: 0,
+        next_retry_at: null,
+        upload_progress: 0,
+      })
+      .eq('id', target.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    console.log(`Added ${clipSegments.length} segment(s) to recording ${target.id}`);
+    this.processQueue();
+  }
+
+  // Transcribe an uploaded recording again with different choices. The current
+  // transcript is kept in transcript_versions and replaced when the new one is ready.
+  async retranscribeRecording(recording: Recording, overrides: TranscriptionOverrides): Promise<void> {
+    const client = await supabaseService.getClient();
+    const { data: dbRecording, error: fetchError } = await client
+      .from('recordings')
+      .select('*')
+      .eq('id', recording.id)
+      .single();
+
+    if (fetchError || !dbRecording) {
+      throw new Error('Recording to re-transcribe was not found');
+    }
+    if (!dbRecording.audio_url) {
+      throw new Error('Recording has not been uploaded yet');
+    }
+
+    const versions: DatabaseTranscriptVersion[] = dbRecording.transcript_versions ?? [];
+    if (dbRecording.transcript) {
+      versions.push({
+        transcript: dbRecording.transcript,
+        corrected_transcript: dbRecording.corrected_transcript ?? undefined,
+        translated_transcript: dbRecording.translated_transcript ?? undefined,
+        recipe_outputs: dbRecording.recipe_outputs ?? undefined,
+        summary: dbRecording.summary ?? undefined,
+        key_points: dbRecording.key_points ?? undefined,
+        title: dbRecording.title ?? undefined,
+        language: dbRecording.language ?? undefined,
+        transcript_segments: dbRecording.transcript_segments ?? undefined,
+        prompt_terms: dbRecording.prompt_terms ?? undefined,
+        overrides: dbRecording.transcribed_with ?? undefined,
+        replaced_at: new Date().toISOString(),
+      });
+    }
+
+    // Chunk transcripts are reused unless cleared, so clear them to redo every chunk
+    const segments = dbRecording.segments?.map((segment: DatabaseRecordingSegment) => ({
+      ...segment,
+      transcript: undefined,
+      transcript_segments: undefined,
+      language: undefined,
+    })) ?? null;
+
+    const { error: updateError } = await client
+      .from('recordings')
+      .update({
+        transcript_versions: versions,
+        transcription_overrides: overrides,
+        segments,
+        processing_error: null,
+        retry_count: 0,
+        next_retry_at: null,
+      })
+      .eq('id', recording.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    await realtimeService.updateRecordingState(recording.id, 'uploaded');
+    this.processQueue();
+  }
+
+  // Deliver a recording's webhook again after it was edited, e.g. a speaker was
+  // renamed. Recordings that haven't been delivered yet pick up the edit anyway.
+  async resendWebhook(recording: Recording): Promise<void> {
+    if (recording.processingState !== 'webhook_sent' && recording.processingState !== 'completed') return;
+
+    await realtimeService.updateRecordingState(recording.id, 'transcribed');
+    this.processQueue();
+  }
+
   private async processQueue(): Promise<void> {
     if (this.isProcessing) return;
 
@@ -197,6 +404,12 @@ class QueueService {
                 user_id: userId,
                 timestamp: localRecording.timestamp.toISOString(),
                 duration: localRecording.duration,
+                waveform: localRecording.waveform ?? null,
+                segments: this.toDatabaseSegments(localRecording),
+                trim_start: localRecording.trimStart ?? null,
+                trim_end: localRecording.trimEnd ?? null,
+                markers: localRecording.markers ?? null,
+                capture_tag: localRecording.captureTag ?? null,
                 processing_state: 'recorded',
                 processing_step: 0,
                 retry_count: 0,
@@ -256,8 +469,9 @@ class QueueService {
 
   private async uploadRecording(dbRecording: DatabaseRecording): Promise<void> {
     try {
-      // Skip if already has audio URL (already uploaded)
-      if (dbRecording.audio_url) {
+      // Skip if already has audio URL (already uploaded), unless a clip was added since
+      const hasPendingSegments = dbRecording.segments?.some(segment => !segment.audio_url);
+      if (dbRecording.audio_url && !hasPendingSegments) {
         console.log(`Recording ${dbRecording.id} already uploaded, moving to transcription`);
         await realtimeService.updateRecordingState(dbRecording.id, 'uploaded', undefined, 100);
         return;
@@ -271,7 +485,7 @@ class QueueService {
       
       if (!localRecording || !localRecording.fileUri) {
         // If no local file but we have a transcript, mark as completed
-        if (dbRecording.transcript) {
+        if (dbRecording.transcript && !hasPendingSegments) {
           console.log(`Recording ${dbRecording.id} has no local file but has transcript, marking as completed`);
           await realtimeService.updateRecordingState(dbRecording.id, 'completed');
           return;
@@ -279,16 +493,18 @@ class QueueService {
         throw new Error('Local recording file not found and no transcript available');
       }
 
-      // Check if file exists
-      const fileInfo = await FileSystem.getInfoAsync(localRecording.fileUri);
-      if (!fileInfo.exists) {
-        // If file doesn't exist but we have a transcript, mark as completed
-        if (dbRecording.transcript) {
-          console.log(`Recording ${dbRecording.id} file doesn't exist but has transcript, marking as completed`);
-          await realtimeService.updateRecordingState(dbRecording.id, 'completed');
-          return;
+      // Segment files are checked one by one as they upload
+      if (!localRecording.segments?.length) {
+        const fileInfo = await FileSystem.getInfoAsync(localRecording.fileUri);
+        if (!fileInfo.exists) {
+          // If file doesn't exist but we have a transcript, mark as completed
+          if (dbRecording.transcript) {
+            console.log(`Recording ${dbRecording.id} file doesn't exist but has transcript, marking as completed`);
+            await realtimeService.updateRecordingState(dbRecording.id, 'completed');
+            return;
+          }
+          throw new Error('Recording file does not exist and no transcript available');
         }
-        throw new Error('Recording file does not exist and no transcript available');
       }
 
       // Create a Recording object for upload
@@ -302,7 +518,9 @@ class QueueService {
       };
 
       // Upload to Supabase storage with progress tracking
-      const audioUrl = await supabaseService.uploadAudio(recordingForUpload);
+      const audioUrl = localRecording.segments?.length
+        ? await this.uploadSegments(recordingForUpload, dbRecording)
+        : await supabaseService.uploadAudio(recordingForUpload);
 
       // Update database with audio URL and state
       const client = await supabaseService.getClient();
@@ -339,6 +557,168 @@ class QueueService {
     }
   }
 
+  // Uploads each chunk on its own, recording progress so a retry resumes
+  // from the first chunk without an audio_url. Returns the first chunk's URL.
+  private async uploadSegments(recording: Recording, dbRecording: DatabaseRecording): Promise<string> {
+    const client = await supabaseService.getClient();
+    const localSegments = recording.segments || [];
+    const dbSegments: DatabaseRecordingSegment[] = dbRecording.segments?.length
+      ? dbRecording.segments.map(segment => ({ ...segment }))
+      : localSegments.map(segment => ({
+          index: segment.index,
+          duration: segment.duration,
+          continuation: segment.continuation,
+        }));
+
+    for (const dbSegment of dbSegments) {
+      if (dbSegment.audio_url) continue;
+
+      const localSegment = localSegments.find(segment => segment.index === dbSegment.index);
+      if (!localSegment?.fileUri) {
+        throw new Error(`Recording segment ${dbSegment.index + 1} file not found`);
+      }
+
+      const fileInfo = await FileSystem.getInfoAsync(localSegment.fileUri);
+      if (!fileInfo.exists) {
+        throw new Error(`Recording segment ${dbSegment.index + 1} file does not exist`);
+      }
+
+      dbSegment.audio_url = await supabaseService.uploadAudio(recording, localSegment);
+
+      const uploadedCount = dbSegments.filter(segment => segment.audio_url).length;
+      await client
+        .from('recordings')
+        .update({ segments: dbSegments })
+        .eq('id', dbRecording.id);
+      await realtimeService.updateRecordingState(
+        dbRecording.id,
+        'uploading',
+        undefined,
+        Math.round((uploadedCount / dbSegments.length) * 100)
+      );
+    }
+
+    return dbSegments[0].audio_url!;
+  }
+
+  // Transcribes chunks that don't have a transcript yet and stitches them together.
+  // Each chunk is cut to the part of the trim window it holds; trimmed is false
+  // unless every chunk transcribed here was.
+  private async transcribeSegments(
+    dbRecording: DatabaseRecording,
+    localRecording: Recording | undefined,
+    options: TranscribeOptions
+  ): Promise<{ transcript: string; language?: string; segments: TranscriptSegment[]; trimmed: boolean }> {
+    const client = await supabaseService.getClient();
+    const dbSegments = (dbRecording.segments || [])
+      .map(segment => ({ ...segment }))
+      .sort((a, b) => a.index - b.index);
+    let trimmed = options.trimStart !== undefined && options.trimEnd !== undefined;
+    let chunkStart = 0;
+
+    for (const dbSegment of dbSegments) {
+      const chunkOffset = chunkStart;
+      chunkStart += dbSegment.duration;
+      if (dbSegment.transcript !== undefined && dbSegment.transcript !== null) {
+        trimmed = false;
+        continue;
+      }
+
+      let chunkOptions: TranscribeOptions = { ...options, trimStart: undefined, trimEnd: undefined };
+      if (options.trimStart !== undefined && options.trimEnd !== undefined) {
+        const trimStart = Math.max(0, options.trimStart - chunkOffset);
+        const trimEnd = options.trimEnd - chunkOffset;
+        if (trimStart >= dbSegment.duration || trimEnd <= 0) {
+          // Nothing but silence, so there's nothing to transcribe
+          dbSegment.transcript = '';
+          dbSegment.transcript_segments = [];
+          continue;
+        }
+        if (trimStart > 0 || trimEnd < dbSegment.duration) {
+          chunkOptions = { ...options, trimStart, trimEnd };
+        }
+      }
+
+      const localSegment = localRecording?.segments?.find(segment => segment.index === dbSegment.index);
+      const localFileUri = localRecording?.fileMissing ? undefined : localSegment?.fileUri;
+      let result;
+      if (localFileUri) {
+        result = await transcriptionService.transcribeAudio(localFileUri, chunkOptions);
+      } else if (dbSegment.audio_url) {
+        // Recorded on another device, or the local file was lost
+        result = await transcriptionService.transcribeStoredAudio(dbSegment.audio_url, chunkOptions);
+      } else {
+        throw new Error(`Recording segment ${dbSegment.index + 1} file not found`);
+      }
+      dbSegment.transcript = result.transcript;
+      dbSegment.transcript_segments = result.segments;
+      dbSegment.language = result.language;
+      if (chunkOptions.trimStart !== undefined && !result.trimmed) {
+        trimmed = false;
+      }
+
+      await client
+        .from('recordings')
+        .update({ segments: dbSegments })
+        .eq('id', dbRecording.id);
+    }
+
+    // Go by the chunks' own languages, so a re-transcribe in another language
+    // doesn't keep the old one. Chunks transcribed before this was kept fall back.
+    return {
+      transcript: stitchSegmentTranscripts(dbSegments),
+      language: dbSegments.find(segment => segment.language)?.language ?? dbRecording.language,
+      segments: mergeTranscriptSegments(dbSegments),
+      trimmed,
+    };
+  }
+
+  // Diarization is optional, so failures only cost the speaker labels. Chunks of a
+  // split recording are separate files, so each is diarized on its own and the
+  // speakers are matched up across the splits where that can be told.
+  private async diarizeSegments(
+    dbRecording: DatabaseRecording,
+    segments: TranscriptSegment[]
+  ): Promise<TranscriptSegment[] | null> {
+    if (!dbRecording.audio_url || segments.length === 0) {
+      return null;
+    }
+
+    try {
+      let turns: SpeakerTurn[];
+      if (dbRecording.segments?.length) {
+        const chunks = [];
+        for (const dbSegment of dbRecording.segments) {
+          let chunkTurns: SpeakerTurn[] = [];
+          try {
+            chunkTurns = dbSegment.audio_url ? await transcriptionService.diarizeAudio(dbSegment.audio_url) : [];
+          } catch (error) {
+            // The other chunks can still be labeled
+            console.error(`Failed to diarize segment ${dbSegment.index + 1} of recording ${dbRecording.id}:`, error);
+          }
+          chunks.push({ ...dbSegment, turns: chunkTurns });
+        }
+        turns = mergeChunkSpeakerTurns(chunks);
+      } else {
+        turns = await transcriptionService.diarizeAudio(dbRecording.audio_url);
+      }
+      return turns.length > 0 ? assignSpeakers(segments, turns) : null;
+    } catch (error) {
+      console.error(`Failed to diarize recording ${dbRecording.id}:`, error);
+      return null;
+    }
+  }
+
+  private toDatabaseSegments(recording: Recording): DatabaseRecordingSegment[] | null {
+    if (!recording.segments?.length) return null;
+
+    return recording.segments.map(segment => ({
+      index: segment.index,
+      duration: segment.duration,
+      continuation: segment.continuation,
+    }));
+  }
+
   private async transcribeRecording(dbRecording: DatabaseRecording): Promise<void> {
     try {
       await realtimeService.updateRecordingState(dbRecording.id, 'transcribing');
@@ -346,47 +726,132 @@ class QueueService {
       // Get local recording for transcription
       const localRecordings = await storageService.getRecordings();
       const localRecording = localRecordings.find(r => r.id === dbRecording.id);
+      // Recordings synced from another device point fileUri at the uploaded copy
+      const hasLocalFile = !!localRecording?.fileUri
+        && !localRecording.fileMissing
+        && !localRecording.fileUri.startsWith('http');
       
-      let transcript: string;
-      let correctedTranscript: string;
-      let title: string;
-
-      // Check if we're on simulator and use mock service
-      if (mockAudioService.isSimulator() && localRecording?.fileUri.includes('ExpoAudio')) {
-        console.log('Using mock audio service for simulator');
-        const mockResult = await mockAudioService.stopMockRecording();
-        transcript = mockResult.transcript;
-        correctedTranscript = mockResult.transcript;
-        title = 'Mock Recording (Simulator)';
-      } else if (localRecording?.fileUri) {
-        // Use Groq API for transcription
-        const client = await supabaseService.getClient();
-        const { data: { user } } = await client.auth.getUser();
-        
-        const result = await groqService.transcribeAndProcess(localRecording.fileUri, user?.id);
-        transcript = result.transcript;
-        correctedTranscript = result.correctedTranscript;
-        title = result.title;
+      const {
+        transcriptionLanguage,
+        diarizationEnabled,
+        translateToEnglish,
+        summaryMinSeconds,
+      } = await userSettingsService.getSettings();
+      // Set by "Re-transcribe" to try a different model, language, dictionary or translation setting
+      const overrides = dbRecording.transcription_overrides ?? {};
+      // Leading and trailing silence is cut off on the server before transcription
+      const hasTrim = dbRecording.trim_start != null && dbRecording.trim_end != null;
+      const options: TranscribeOptions = {
+        recordingId: dbRecording.id,
+        language: overrides.language ?? transcriptionLanguage,
+        model: overrides.model,
+        useDictionary: overrides.useDictionary,
+        ...(hasTrim && { trimStart: dbRecording.trim_start!, trimEnd: dbRecording.trim_end! }),
+      };
+
+      let transcription: { transcript: string; language?: string; segments: TranscriptSegment[]; trimmed?: boolean };
+      if (dbRecording.segments?.length) {
+        transcription = await this.transcribeSegments(dbRecording, localRecording, options);
+      } else if (hasLocalFile) {
+        // Transcribe with the user's chosen provider
+        transcription = await transcriptionService.transcribeAudio(localRecording!.fileUri, options);
       } else if (dbRecording.audio_url) {
-        // Download audio from URL and transcribe
-        // This is a fallback for recordings that don't have local files
-        throw new Error('Remote transcription not yet implemented');
+        // No local file (recorded on another device, or lost after a reinstall),
+        // so have the edge function fetch the uploaded copy from storage
+        transcription = await transcriptionService.transcribeStoredAudio(dbRecording.audio_url, options);
       } else {
         throw new Error('No audio file available for transcription');
       }
 
-      // Update database with transcription results
+      let transcript = transcription.transcript;
+      const language = transcription.language;
+      let transcriptSegments = transcription.segments;
+
+      // Formats the server can't cut (webm) are trimmed by their transcript instead.
+      // Without timestamps that can't be done either, so drop the trim window.
+      const canTrim = hasTrim && (transcription.trimmed || transcriptSegments.length > 0);
+      if (canTrim && !transcription.trimmed) {
+        transcriptSegments = trimTranscriptSegments(transcriptSegments, dbRecording.trim_start!, dbRecording.trim_end!);
+        transcript = transcriptSegments.map(segment => segment.text.trim()).filter(Boolean).join(' ');
+      }
+
+      // Label who said what, and let the labels carry into the corrected transcript
+      let transcriptToProcess = transcript;
+      if (diarizationEnabled) {
+        const diarized = await this.diarizeSegments(dbRecording, transcriptSegments);
+        if (diarized) {
+          transcriptSegments = diarized;
+          transcriptToProcess = formatSpeakerTranscript(diarized, dbRecording.speaker_names ?? undefined);
+        }
+      }
+
+      const {
+        processed,
+        correctedTranscript,
+        title,
+        translatedTranscript,
+        recipeOutputs,
+        summary,
+        keyPoints,
+        tasks,
+        tags: assignedTags,
+      } = await transcriptionService.processTranscript(
+        transcriptToProcess,
+        {
+          useDictionary: overrides.useDictionary !== false,
+          translate: overrides.translate ?? translateToEnglish,
+          language: language ?? options.language,
+          runRecipes: true,
+          extractTasks: true,
+          recordedAt: dbRecording.timestamp,
+          summarize: summaryMinSeconds > 0 && dbRecording.duration >= summaryMinSeconds,
+          assignTags: true,
+        }
+      );
+
+      // Update database with transcription results. If processing failed, keep the
+      // title, summary and other results an earlier run produced.
       const client = await supabaseService.getClient();
       await client
         .from('recordings')
         .update({
           transcript,
           corrected_transcript: correctedTranscript,
-          title,
+          ...(processed && {
+            translated_transcript: translatedTranscript ?? null,
+            recipe_outputs: recipeOutputs.length > 0 ? recipeOutputs : null,
+            summary: summary ?? null,
+            key_points: keyPoints ?? null,
+            title,
+          }),
+          language: language ?? null,
+          transcript_segments: transcriptSegments ?? null,
+          ...(hasTrim && !canTrim && { trim_start: null, trim_end: null }),
+          // Overrides are for this run only; later runs go back to the user's settings
+          transcription_overrides: null,
+          transcribed_with: dbRecording.transcription_overrides ?? null,
           processing_state: 'transcribed'
         })
         .eq('id', dbRecording.id);
 
+      if (processed) {
+        try {
+          await taskService.replaceRecordingTasks(dbRecording.id, tasks);
+        } catch (error) {
+          // The transcript is still good without its tasks
+          console.error(`Failed to save tasks for recording ${dbRecording.id}:`, error);
+        }
+      }
+
+      let tags: string[] | undefined;
+      if (processed) {
+        try {
+          tags = await tagService.replaceRecordingTags(dbRecording.id, assignedTags);
+        } catch (error) {
+          console.error(`Failed to save tags for recording ${dbRecording.id}:`, error);
+        }
+      }
+
       await realtimeService.updateRecordingState(dbRecording.id, 'transcribed');
 
       // Update local storage
@@ -394,7 +859,17 @@ class QueueService {
         await storageService.updateRecording(dbRecording.id, {
           transcript,
           correctedTranscript,
-          title
+          ...(processed && {
+            translatedTranscript,
+            recipeOutputs,
+            summary,
+            keyPoints,
+            title,
+          }),
+          ...(tags && { tags }),
+          language,
+          transcriptSegments,
+          ...(hasTrim && !canTrim && { trimStart: undefined, trimEnd: undefined }),
         });
       }
 
@@ -439,9 +914,79 @@ class QueueService {
         duration: dbRecording.duration,
         transcript: dbRecording.transcript || '',
         correctedTranscript: dbRecording.corrected_transcript || dbRecording.transcript || '',
+        translatedTranscript: dbRecording.translated_transcript ?? undefined,
         audioUrl: dbRecording.audio_url,
+        language: dbRecording.language,
+        transcriptSegments: dbRecording.transcript_segments,
+        recipeOutputs: dbRecording.recipe_outputs ?? undefined,
+        summary: dbRecording.summary ?? undefined,
+        keyPoints: dbRecording.key_points ?? undefined,
       };
 
+      // Send the names users gave speakers rather than the "Speaker 1" ids
+      const speakers = getSpeakers(dbRecording.transcript_segments);
+      if (speakers.length > 0) {
+        const speakerNames = dbRecording.speaker_names ?? undefined;
+        // Speakers from different parts of a split recording can share a name
+        webhookPayload.speakers = [...new Set(speakers.map(speaker => getSpeakerName(speaker, speakerNames)))];
+        webhookPayload.transcriptSegments = dbRecording.transcript_segments!.map(segment => (
+          segment.speaker ? { ...segment, speaker: getSpeakerName(segment.speaker, speakerNames) } : segment
+        ));
+      }
+
+      const tasks = await taskService.getRecordingTasks(dbRecording.id);
+      if (tasks.length > 0) {
+        webhookPayload.tasks = tasks.map(task => ({
+          id: task.id,
+          text: task.text,
+          dueDate: task.dueDate,
+          people: task.people,
+          completed: task.completed,
+        }));
+      }
+
+      if (dbRecording.trim_start != null && dbRecording.trim_end != null) {
+        webhookPayload.metadata = {
+          ...webhookPayload.metadata,
+          trimStart: dbRecording.trim_start,
+          trimEnd: dbRecording.trim_end,
+        };
+      }
+
+      if (dbRecording.segments?.length) {
+        webhookPayload.metadata = {
+          ...webhookPayload.metadata,
+          segments: dbRecording.segments.map(segment => ({
+            index: segment.index,
+            duration: segment.duration,
+            audioUrl: segment.audio_url,
+            continuation: segment.continuation,
+          })),
+        };
+      }
+
+      if (dbRecording.markers?.length) {
+        webhookPayload.metadata = {
+          ...webhookPayload.metadata,
+          markers: dbRecording.markers,
+        };
+      }
+
+      const tags = await tagService.getRecordingTags(dbRecording.id);
+      if (tags.length > 0) {
+        webhookPayload.metadata = {
+          ...webhookPayload.metadata,
+          tags,
+        };
+      }
+
+      if (dbRecording.capture_tag) {
+        webhookPayload.metadata = {
+          ...webhookPayload.metadata,
+          captureTag: dbRecording.capture_tag,
+        };
+      }
+
       // Send webhook
       await supabaseService.sendWebhook(settings.webhookUrl, webhookPayload);
 
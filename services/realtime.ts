@@ -1,6 +1,7 @@
 import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { DatabaseRecording, Recording, ProcessingState } from '@/types';
 import { supabaseService } from './supabase';
+import { databaseSegmentsToSegments, databaseTagsToTags } from '@/utils/helpers';
 
 type RecordingChangeHandler = (recording: Recording) => void;
 type ConnectionStateHandler = (connected: boolean) => void;
@@ -273,13 +274,30 @@ class RealtimeService {
       fileUri: dbRecord.audio_url || '',
       transcript: dbRecord.transcript,
       correctedTranscript: dbRecord.corrected_transcript,
+      translatedTranscript: dbRecord.translated_transcript ?? undefined,
+      transcriptSegments: dbRecord.transcript_segments ?? undefined,
+      recipeOutputs: dbRecord.recipe_outputs ?? undefined,
+      summary: dbRecord.summary ?? undefined,
+      keyPoints: dbRecord.key_points ?? undefined,
+      tags: databaseTagsToTags(dbRecord.recording_tags),
       title: dbRecord.title,
+      waveform: dbRecord.waveform,
+      segments: databaseSegmentsToSegments(dbRecord.segments),
+      trimStart: dbRecord.trim_start ?? undefined,
+      trimEnd: dbRecord.trim_end ?? undefined,
+      markers: dbRecord.markers ?? undefined,
+      captureTag: dbRecord.capture_tag ?? undefined,
+      language: dbRecord.language ?? undefined,
+      speakerNames: dbRecord.speaker_names ?? undefined,
+      promptTerms: dbRecord.prompt_terms ?? undefined,
       processingState: dbRecord.processing_state,
       processingStep: dbRecord.processing_step,
       processingError: dbRecord.processing_error,
       retryCount: dbRecord.retry_count,
       nextRetryAt: dbRecord.next_retry_at ? new Date(dbRecord.next_retry_at) : undefined,
       uploadProgress: dbRecord.upload_progress,
+      transcriptionChunksDone: dbRecord.transcription_chunks_done ?? undefined,
+      transcriptionChunksTotal: dbRecord.transcription_chunks_total ?? undefined,
       transcriptionJobId: dbRecord.transcription_job_id,
       lastStateChangeAt: new Date(dbRecord.last_state_change_at),
       
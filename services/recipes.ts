@@ -0,0 +1,64 @@
+import { DatabaseRecipe, Recipe } from '@/types';
+import { supabaseService } from './supabase';
+
+class RecipeService {
+  async getRecipes(): Promise<Recipe[]> {
+    const client = await supabaseService.getAuthClient();
+    const { data, error } = await client
+      .from('recipes')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((record: DatabaseRecipe) => this.databaseRecipeToRecipe(record));
+  }
+
+  // Inserts the recipe when it has no id yet, otherwise updates it
+  async saveRecipe(recipe: Omit<Recipe, 'id'> & { id?: string }): Promise<Recipe> {
+    const client = await supabaseService.getAuthClient();
+    const { data: { user } } = await client.auth.getUser();
+
+    if (!user) {
+      throw new Error('Sign in to save recipes');
+    }
+
+    const recipeData = {
+      user_id: user.id,
+      name: recipe.name.trim(),
+      prompt: recipe.prompt.trim(),
+      output_schema: recipe.outputSchema,
+      enabled: recipe.enabled,
+    };
+
+    const { data, error } = recipe.id
+      ? await client.from('recipes').update(recipeData).eq('id', recipe.id).select().single()
+      : await client.from('recipes').insert(recipeData).select().single();
+
+    if (error) throw error;
+
+    return this.databaseRecipeToRecipe(data);
+  }
+
+  async deleteRecipe(id: string): Promise<void> {
+    const client = await supabaseService.getAuthClient();
+    const { error } = await client
+      .from('recipes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  private databaseRecipeToRecipe(record: DatabaseRecipe): Recipe {
+    return {
+      id: record.id,
+      name: record.name,
+      prompt: record.prompt,
+      outputSchema: record.output_schema ?? {},
+      enabled: record.enabled ?? true,
+    };
+  }
+}
+
+export const recipeService = new RecipeService();
\ No newline at end of file
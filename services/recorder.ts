@@ -0,0 +1,20 @@
+import { Platform } from 'react-native';
+import * as Device from 'expo-device';
+import { Recorder } from '@/types';
+import { ExpoAudioRecorder } from './audio';
+import { MockRecorder } from './mockAudio';
+import { WebRecorder } from './webAudio';
+
+// Pick the backend once at startup; everything else records through the Recorder interface
+function createRecorder(): Recorder {
+  if (Platform.OS === 'web') {
+    return new WebRecorder();
+  }
+  if (!Device.isDevice) {
+    console.log('Simulator detected, using mock recorder');
+    return new MockRecorder();
+  }
+  return new ExpoAudioRecorder();
+}
+
+export const recorderService = createRecorder();
@@ -3,6 +3,9 @@ import { storageService } from './storage';
 import { supabaseService } from './supabase';
 import { realtimeService } from './realtime';
 import { pollingService } from './pollingService';
+import { tagService } from './tags';
+import { queueService } from './queue';
+import { databaseSegmentsToSegments, databaseTagsToTags, formatSpeakerTranscript, relabelSpeakerTranscript } from '@/utils/helpers';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const CACHE_KEY = '@secretary_recordings_cache';
@@ -139,6 +142,15 @@ class RecordingService {
         return; // Nothing to delete
       }
     } else if (index >= 0) {
+      // Realtime rows don't include the joined tags. Processing sets them before
+      // the recording reaches 'transcribed', so fetch them then, else keep ours.
+      if (!recording.tags) {
+        const previous = recordings[index];
+        recording.tags = recording.processingState === 'transcribed' && previous.processingState !== 'transcribed'
+          ? await tagService.getRecordingTags(recording.id).catch(() => previous.tags)
+          : previous.tags;
+      }
+
       // Update existing recording - create new array
       recordings[index] = recording;
       console.log(`Updated recording ${recording.id} to state: ${recording.processingState}`);
@@ -197,7 +209,7 @@ class RecordingService {
 
       const { data, error } = await client
         .from('recordings')
-        .select('*')
+        .select('*, recording_tags(tags(name))')
         .eq('user_id', user.id)
         .order('timestamp', { ascending: false });
 
@@ -239,13 +251,30 @@ class RecordingService {
       fileUri: dbRecord.audio_url || '',
       transcript: dbRecord.transcript,
       correctedTranscript: dbRecord.corrected_transcript,
+      translatedTranscript: dbRecord.translated_transcript ?? undefined,
+      transcriptSegments: dbRecord.transcript_segments ?? undefined,
+      recipeOutputs: dbRecord.recipe_outputs ?? undefined,
+      summary: dbRecord.summary ?? undefined,
+      keyPoints: dbRecord.key_points ?? undefined,
+      tags: databaseTagsToTags(dbRecord.recording_tags),
       title: dbRecord.title,
+      waveform: dbRecord.waveform,
+      segments: databaseSegmentsToSegments(dbRecord.segments),
+      trimStart: dbRecord.trim_start ?? undefined,
+      trimEnd: dbRecord.trim_end ?? undefined,
+      markers: dbRecord.markers ?? undefined,
+      captureTag: dbRecord.capture_tag ?? undefined,
+      language: dbRecord.language ?? undefined,
+      speakerNames: dbRecord.speaker_names ?? undefined,
+      promptTerms: dbRecord.prompt_terms ?? undefined,
       processingState: dbRecord.processing_state,
       processingStep: dbRecord.processing_step,
       processingError: dbRecord.processing_error,
       retryCount: dbRecord.retry_count,
       nextRetryAt: dbRecord.next_retry_at ? new Date(dbRecord.next_retry_at) : undefined,
       uploadProgress: dbRecord.upload_progress,
+      transcriptionChunksDone: dbRecord.transcription_chunks_done ?? undefined,
+      transcriptionChunksTotal: dbRecord.transcription_chunks_total ?? undefined,
       transcriptionJobId: dbRecord.transcription_job_id,
       lastStateChangeAt: new Date(dbRecord.last_state_change_at),
       
@@ -325,6 +354,50 @@ class RecordingService {
     }
   }
 
+  // Rename a diarized speaker for this recording only. An empty name goes back to the speaker id.
+  async renameSpeaker(recording: Recording, speaker: string, name: string): Promise<void> {
+    try {
+      const speakerNames = { ...recording.speakerNames };
+      if (name.trim()) {
+        speakerNames[speaker] = name.trim();
+      } else {
+        delete speakerNames[speaker];
+      }
+
+      // Labels come from the speaker-tagged segments; if the corrected paragraphs
+      // no longer line up with them, rebuild the transcript from the segments
+      const segments = recording.transcriptSegments ?? [];
+      const correctedTranscript = recording.correctedTranscript
+        ? relabelSpeakerTranscript(recording.correctedTranscript, segments, recording.speakerNames, speakerNames)
+          ?? formatSpeakerTranscript(segments, speakerNames)
+        : recording.correctedTranscript;
+      // A translation can't be rebuilt from the segments, so it keeps its labels if they don't line up
+      const translatedTranscript = recording.translatedTranscript
+        ? relabelSpeakerTranscript(recording.translatedTranscript, segments, recording.speakerNames, speakerNames)
+          ?? recording.translatedTranscript
+        : recording.translatedTranscript;
+
+      const client = await supabaseService.getClient();
+      const { error } = await client
+        .from('recordings')
+        .update({
+          speaker_names: speakerNames,
+          corrected_transcript: correctedTranscript,
+          translated_transcript: translatedTranscript ?? null,
+        })
+        .eq('id', recording.id);
+
+      if (error) throw error;
+
+      await storageService.updateRecording(recording.id, { speakerNames, correctedTranscript, translatedTranscript });
+      await this.handleRecordingChange({ ...recording, speakerNames, correctedTranscript, translatedTranscript });
+      await queueService.resendWebhook(recording);
+    } catch (error) {
+      console.error('Failed to rename speaker:', error);
+      throw error;
+    }
+  }
+
   async retryRecording(id: string): Promise<void> {
     const success = await realtimeService.retryRecording(id);
     if (success) {
@@ -0,0 +1,230 @@
+import * as FileSystem from 'expo-file-system';
+import { Recording, RecordingSegment } from '@/types';
+import { generateRecordingId, getAudioExtension, getFileName } from '@/utils/helpers';
+import { storageService, RECORDINGS_DIR } from './storage';
+import { recorderService } from './recorder';
+import { queueService } from './queue';
+import { supabaseService } from './supabase';
+import { realtimeService } from './realtime';
+
+interface ReconcileResult {
+  recovered: number;
+  missing: number;
+}
+
+interface OrphanedFile {
+  fileName: string;
+  fileUri: string;
+  modifiedAt: number; // Seconds since the epoch
+  part?: number; // n of a recording_<time>_part<n> chunk
+}
+
+// Chunks of one segmented recording are saved as recording_<time>_part1,
+// recording_<time>_part2, ... in order, so consecutive parts belong together
+function groupSegmentFiles(files: OrphanedFile[]): OrphanedFile[][] {
+  const groups: OrphanedFile[][] = [];
+  const sorted = [...files].sort((a, b) => a.modifiedAt - b.modifiedAt || a.fileName.localeCompare(b.fileName));
+
+  for (const file of sorted) {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (file.part && file.part > 1 && previous?.part === file.part - 1) {
+      current.push(file);
+    } else {
+      groups.push([file]);
+    }
+  }
+
+  return groups;
+}
+
+class RecoveryService {
+  private isReconciling = false;
+
+  // Runs once at startup to repair the gap between the recordings directory and
+  // stored recordings, e.g. when the app dies after moving a file but before saving it
+  async reconcile(): Promise<ReconcileResult> {
+    if (this.isReconciling) return { recovered: 0, missing: 0 };
+    this.isReconciling = true;
+
+    try {
+      const recordings = await storageService.getRecordings();
+      const recovered = await this.recoverOrphanedFiles(recordings);
+      const missing = await this.flagMissingFiles(recordings);
+
+      if (recovered > 0 || missing > 0) {
+        console.log(`Reconciliation recovered ${recovered} recordings from orphaned files, flagged ${missing} missing files`);
+      }
+
+      return { recovered, missing };
+    } catch (error) {
+      console.error('Failed to reconcile recordings:', error);
+      return { recovered: 0, missing: 0 };
+    } finally {
+      this.isReconciling = false;
+    }
+  }
+
+  private getFileUris(recording: Recording): string[] {
+    const uris = recording.segments?.map(segment => segment.fileUri).filter((uri): uri is string => !!uri) || [];
+    if (recording.fileUri && !uris.includes(recording.fileUri)) {
+      uris.unshift(recording.fileUri);
+    }
+    return uris.filter(uri => !uri.startsWith('http'));
+  }
+
+  private async recoverOrphanedFiles(recordings: Recording[]): Promise<number> {
+    const dirInfo = await FileSystem.getInfoAsync(RECORDINGS_DIR);
+    if (!dirInfo.exists) return 0;
+
+    // Compare by file name, since the documents path can change between app updates
+    const knownFiles = new Set(recordings.flatMap(recording => this.getFileUris(recording).map(getFileName)));
+    const fileNames = await FileSystem.readDirectoryAsync(RECORDINGS_DIR);
+    const orphans: OrphanedFile[] = [];
+
+    for (const fileName of fileNames) {
+      if (knownFiles.has(fileName) || !getAudioExtension(fileName)) continue;
+
+      const fileUri = `${RECORDINGS_DIR}${fileName}`;
+      const fileInfo = await FileSystem.getInfoAsync(fileUri);
+      if (!fileInfo.exists || fileInfo.isDirectory) continue;
+
+      const part = fileName.match(/_part(\d+)\.\w+$/);
+      orphans.push({
+        fileName,
+        fileUri,
+        modifiedAt: fileInfo.modificationTime ?? Date.now() / 1000,
+        part: part ? Number(part[1]) : undefined,
+      });
+    }
+
+    if (orphans.length === 0) return 0;
+
+    // A recording pruned from local storage may already be in the database
+    const savedFiles = await this.getSavedFileNames(orphans.map(file => file.fileName));
+    if (!savedFiles) return 0;
+
+    let recovered = 0;
+    for (const files of groupSegmentFiles(orphans)) {
+      const names = files.map(file => file.fileName).join(', ');
+      if (files.some(file => savedFiles.has(file.fileName))) {
+        console.log(`Skipping orphaned recording files ${names}, already saved to the database`);
+        continue;
+      }
+
+      try {
+        const segments: RecordingSegment[] = [];
+        for (const [index, file] of files.entries()) {
+          segments.push({ index, duration: await recorderService.getDurationAsync(file.fileUri), fileUri: file.fileUri });
+        }
+
+        const recording: Recording = {
+          id: generateRecordingId(),
+          timestamp: new Date(files[0].modifiedAt * 1000),
+          duration: segments.reduce((total, segment) => total + segment.duration, 0),
+          fileUri: files[0].fileUri,
+          segments: segments.length > 1 ? segments : undefined,
+          processingState: 'recorded',
+          processingStep: 0,
+          retryCount: 0,
+          uploadProgress: 0,
+          lastStateChangeAt: new Date(),
+        };
+
+        await storageService.saveRecording(recording);
+        await queueService.enqueueRecording(recording);
+        recovered++;
+
+        console.log(`Recovered orphaned recording files ${names} as ${recording.id}`);
+      } catch (error) {
+        // Leave the files in place so a later launch can try again
+        console.warn(`Failed to recover orphaned recording files ${names}:`, error);
+      }
+    }
+
+    return recovered;
+  }
+
+  // Which of these files already belong to a recording in the database. Null when
+  // that can't be checked, so the files are left for a later launch to recover.
+  private async getSavedFileNames(fileNames: string[]): Promise<Set<string> | null> {
+    try {
+      const client = await supabaseService.getClient();
+      const { data: { user } } = await client.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await client
+        .from('recordings')
+        .select('local_file_names')
+        .overlaps('local_file_names', fileNames);
+
+      if (error) throw error;
+
+      return new Set((data || []).flatMap(row => row.local_file_names || []));
+    } catch (error) {
+      console.warn('Failed to check orphaned recording files against the database:', error);
+      return null;
+    }
+  }
+
+  private async flagMissingFiles(recordings: Recording[]): Promise<number> {
+    const missingIds: string[] = [];
+
+    for (const recording of recordings) {
+      const uris = this.getFileUris(recording);
+      if (uris.length === 0) continue;
+
+      let isMissing = false;
+      for (const uri of uris) {
+        const fileInfo = await FileSystem.getInfoAsync(uri);
+        if (!fileInfo.exists) {
+          isMissing = true;
+          break;
+        }
+      }
+
+      if (isMissing !== !!recording.fileMissing) {
+        await storageService.updateRecording(recording.id, { fileMissing: isMissing });
+      }
+      if (isMissing) {
+        missingIds.push(recording.id);
+      }
+    }
+
+    if (missingIds.length > 0) {
+      await this.failPendingUploads(missingIds);
+    }
+
+    return missingIds.length;
+  }
+
+  // Recordings that never finished uploading can't be processed without their
+  // file, so surface that as an upload failure instead of retrying forever
+  private async failPendingUploads(recordingIds: string[]): Promise<void> {
+    try {
+      const client = await supabaseService.getClient();
+      const { data: { user } } = await client.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await client
+        .from('recordings')
+        .select('id')
+        .in('id', recordingIds)
+        .is('audio_url', null)
+        .in('processing_state', ['recorded', 'uploading', 'upload_failed']);
+
+      if (error) throw error;
+
+      for (const { id } of data || []) {
+        await realtimeService.updateRecordingState(id, 'upload_failed', {
+          message: 'Recording file is missing from this device',
+          code: 'FILE_MISSING',
+        });
+      }
+    } catch (error) {
+      console.warn('Failed to flag recordings with missing files:', error);
+    }
+  }
+}
+
+export const recoveryService = new RecoveryService();
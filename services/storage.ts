@@ -1,9 +1,20 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
 import { Recording, Settings } from '@/types';
 import { STORAGE_KEYS, DEFAULT_SETTINGS } from '@/utils/constants';
 import { v4 as uuidv4 } from 'uuid';
 
+// Permanent home for recorded and imported audio files
+export const RECORDINGS_DIR = `${FileSystem.documentDirectory}recordings/`;
+
 class StorageService {
+  async ensureRecordingsDir(): Promise<void> {
+    const dirInfo = await FileSystem.getInfoAsync(RECORDINGS_DIR);
+    if (!dirInfo.exists) {
+      await FileSystem.makeDirectoryAsync(RECORDINGS_DIR, { intermediates: true });
+    }
+  }
+
   async getSettings(): Promise<Settings> {
     try {
       const data = await AsyncStorage.getItem(STORAGE_KEYS.SETTINGS);
@@ -14,6 +25,42 @@ class StorageService {
       if (!settings.dictionary) {
         settings.dictionary = [];
       }
+      if (!settings.audioQuality) {
+        settings.audioQuality = DEFAULT_SETTINGS.audioQuality;
+      }
+      if (settings.segmentMinutes === undefined) {
+        settings.segmentMinutes = DEFAULT_SETTINGS.segmentMinutes;
+      }
+      if (settings.silenceTimeoutSeconds === undefined) {
+        settings.silenceTimeoutSeconds = DEFAULT_SETTINGS.silenceTimeoutSeconds;
+      }
+      if (!settings.transcriptionLanguage) {
+        settings.transcriptionLanguage = DEFAULT_SETTINGS.transcriptionLanguage;
+      }
+      if (!settings.transcriptionProvider) {
+        settings.transcriptionProvider = DEFAULT_SETTINGS.transcriptionProvider;
+        settings.transcriptionModel = DEFAULT_SETTINGS.transcriptionModel;
+        settings.transcriptionBaseUrl = DEFAULT_SETTINGS.transcriptionBaseUrl;
+        settings.transcriptionApiKeySet = DEFAULT_SETTINGS.transcriptionApiKeySet;
+      }
+      // API keys used to be kept here in plain text; they now live server-side only
+      if ('transcriptionApiKey' in settings) {
+        delete settings.transcriptionApiKey;
+        settings.transcriptionApiKeySet = false;
+        await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+      }
+      if (settings.diarizationEnabled === undefined) {
+        settings.diarizationEnabled = DEFAULT_SETTINGS.diarizationEnabled;
+      }
+      if (settings.promptWithRecentTitles === undefined) {
+        settings.promptWithRecentTitles = DEFAULT_SETTINGS.promptWithRecentTitles;
+      }
+      if (settings.translateToEnglish === undefined) {
+        settings.translateToEnglish = DEFAULT_SETTINGS.translateToEnglish;
+      }
+      if (settings.summaryMinSeconds === undefined) {
+        settings.summaryMinSeconds = DEFAULT_SETTINGS.summaryMinSeconds;
+      }
       
       return settings;
     } catch (error) {
@@ -114,8 +161,17 @@ class StorageService {
       const recordings = await this.getRecordings();
       recordings.unshift(recording);
       
-      // Keep only last 100 recordings in local storage
-      const recentRecordings = recordings.slice(0, 100);
+      // Keep only last 100 recordings in local storage. Audio of the ones dropped
+      // goes too, or startup recovery would import it again as a new recording.
+      // Recordings that haven't been transcribed yet still need their files.
+      const recentRecordings: Recording[] = [];
+      for (const [index, r] of recordings.entries()) {
+        if (index < 100 || !r.transcript) {
+          recentRecordings.push(r);
+        } else {
+          await this.deleteRecordingFiles(r);
+        }
+      }
       
       await AsyncStorage.setItem(
         STORAGE_KEYS.RECORDINGS,
@@ -145,10 +201,16 @@ class StorageService {
     }
   }
 
+  // Removes the audio files too, so startup recovery doesn't bring the recording back
   async deleteRecording(id: string): Promise<void> {
     try {
       const recordings = await this.getRecordings();
+      const recording = recordings.find(r => r.id === id);
       const filtered = recordings.filter(r => r.id !== id);
+
+      if (recording) {
+        await this.deleteRecordingFiles(recording);
+      }
       
       await AsyncStorage.setItem(
         STORAGE_KEYS.RECORDINGS,
@@ -159,6 +221,16 @@ class StorageService {
       throw error;
     }
   }
+
+  private async deleteRecordingFiles(recording: Recording): Promise<void> {
+    const uris = new Set([recording.fileUri, ...(recording.segments || []).map(segment => segment.fileUri)]);
+
+    for (const uri of uris) {
+      // Synced recordings point at the uploaded copy, and web recordings at blob: URLs
+      if (!uri?.startsWith('file://')) continue;
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  }
 }
 
 export const storageService = new StorageService();
\ No newline at end of file
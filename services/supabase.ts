@@ -1,8 +1,9 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as FileSystem from 'expo-file-system';
-import { Recording, WebhookPayload } from '@/types';
+import { Recording, RecordingSegment, WebhookPayload } from '@/types';
 import { userSettingsService } from './userSettings';
 import { SUPABASE_URL, SUPABASE_ANON_KEY } from '@/config/supabase.config';
+import { getAudioFileType } from '@/utils/helpers';
 
 class SupabaseService {
   private supabaseClient: SupabaseClient | null = null;
@@ -44,7 +45,20 @@ class SupabaseService {
     return this.getAuthClient();
   }
 
-  async uploadAudio(recording: Recording): Promise<string> {
+  // Edge functions take the caller from this token, so they only touch the
+  // signed-in user's recordings and settings
+  async getFunctionHeaders(): Promise<Record<string, string>> {
+    const client = await this.getAuthClient();
+    const { data: { session } } = await client.auth.getSession();
+    if (!session) throw new Error('User not authenticated');
+
+    return {
+      'Authorization': `Bearer ${session.access_token}`,
+      'apikey': SUPABASE_ANON_KEY,
+    };
+  }
+
+  async uploadAudio(recording: Recording, segment?: RecordingSegment): Promise<string> {
     try {
       const client = await this.getClient();
       
@@ -52,10 +66,16 @@ class SupabaseService {
       const { data: { user } } = await client.auth.getUser();
       if (!user) throw new Error('User not authenticated');
       
-      const fileName = `${user.id}/${recording.id}.m4a`;
+      const fileUri = segment?.fileUri ?? recording.fileUri;
+      const { extension, contentType } = getAudioFileType(fileUri);
+
+      // Chunks of a segmented recording are stored next to each other as <id>_part<n>
+      const fileName = segment
+        ? `${user.id}/${recording.id}_part${segment.index + 1}.${extension}`
+        : `${user.id}/${recording.id}.${extension}`;
       
       // Read file as base64
-      const base64 = await FileSystem.readAsStringAsync(recording.fileUri, {
+      const base64 = await FileSystem.readAsStringAsync(fileUri, {
         encoding: FileSystem.EncodingType.Base64,
       });
       
@@ -66,7 +86,7 @@ class SupabaseService {
       const { data, error } = await client.storage
         .from('recordings')
         .upload(fileName, fileData, {
-          contentType: 'audio/mp4',
+          contentType,
           upsert: true,
         });
 
@@ -100,7 +120,7 @@ class SupabaseService {
       const response = await fetch(`${SUPABASE_URL}/functions/v1/send-webhook`, {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          ...await this.getFunctionHeaders(),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
@@ -139,11 +159,18 @@ class SupabaseService {
         throw dbError;
       }
       
-      // Then delete the audio file from storage
-      const fileName = `${user.id}/${recordingId}.m4a`;
+      // Then delete the audio file(s) from storage, including any segment chunks
+      const { data: files } = await client.storage
+        .from('recordings')
+        .list(user.id, { search: recordingId });
+      const fileNames = (files || []).map(file => `${user.id}/${file.name}`);
+      if (fileNames.length === 0) {
+        fileNames.push(`${user.id}/${recordingId}.m4a`);
+      }
+
       const { error: storageError } = await client.storage
         .from('recordings')
-        .remove([fileName]);
+        .remove(fileNames);
 
       if (storageError) {
         console.error('Failed to delete audio file from storage:', storageError);
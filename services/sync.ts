@@ -63,15 +63,11 @@ class SyncService {
         try {
           console.log(`Processing legacy recording ${recording.id} for title generation`);
           
-          // Import groqService dynamically to avoid circular dependency
-          const { groqService } = await import('./groq');
-          
-          // Get current user ID
-          const client = await supabaseService.getClient();
-          const { data: { user } } = await client.auth.getUser();
+          // Import transcriptionService dynamically to avoid circular dependency
+          const { transcriptionService } = await import('./transcription');
           
           // Process transcript to get title and corrections
-          const processed = await groqService.processTranscript(recording.transcript, user?.id);
+          const processed = await transcriptionService.processTranscript(recording.transcript);
           
           // Update local recording with processed data
           await storageService.updateRecording(recording.id, {
@@ -0,0 +1,94 @@
+import { AssignedTag, DatabaseTag, Tag } from '@/types';
+import { databaseTagsToTags, normalizeTagName } from '@/utils/helpers';
+import { supabaseService } from './supabase';
+
+class TagService {
+  async getTags(): Promise<Tag[]> {
+    const client = await supabaseService.getAuthClient();
+    const { data, error } = await client
+      .from('tags')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((record: DatabaseTag) => this.databaseTagToTag(record));
+  }
+
+  async addTag(name: string): Promise<Tag> {
+    const client = await supabaseService.getAuthClient();
+    const { data: { user } } = await client.auth.getUser();
+
+    if (!user) {
+      throw new Error('Sign in to add tags');
+    }
+
+    // Adding a tag that was only suggested keeps it
+    const { data, error } = await client
+      .from('tags')
+      .upsert({ user_id: user.id, name: normalizeTagName(name), suggested: false }, { onConflict: 'user_id,name' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return this.databaseTagToTag(data);
+  }
+
+  // Removes the tag from every recording too
+  async deleteTag(id: string): Promise<void> {
+    const client = await supabaseService.getAuthClient();
+    const { error } = await client
+      .from('tags')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getRecordingTags(recordingId: string): Promise<string[]> {
+    const client = await supabaseService.getClient();
+    const { data, error } = await client
+      .from('recording_tags')
+      .select('tags(name)')
+      .eq('recording_id', recordingId);
+
+    if (error) throw error;
+
+    return databaseTagsToTags(data || []) ?? [];
+  }
+
+  // A new transcript replaces the tags processing gave the previous one
+  async replaceRecordingTags(recordingId: string, tags: AssignedTag[]): Promise<string[]> {
+    const client = await supabaseService.getClient();
+
+    // Said aloud beats picked, which beats suggested, when the same tag comes up twice
+    const priority = { spoken: 0, auto: 1, suggested: 2 };
+    const byName = new Map<string, AssignedTag>();
+    for (const tag of [...tags].sort((a, b) => priority[a.source] - priority[b.source])) {
+      const name = normalizeTagName(tag.name);
+      if (name && !byName.has(name)) {
+        byName.set(name, { name, source: tag.source });
+      }
+    }
+
+    const { error } = await client.rpc('replace_recording_tags', {
+      p_recording_id: recordingId,
+      p_tags: [...byName.values()],
+    });
+
+    if (error) throw error;
+
+    return [...byName.keys()].sort();
+  }
+
+  private databaseTagToTag(record: DatabaseTag): Tag {
+    return {
+      id: record.id,
+      name: record.name,
+      suggested: record.suggested ?? false,
+    };
+  }
+}
+
+export const tagService = new TagService();
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { DatabaseRecordingTask, ExtractedTask, RecordingTask } from '@/types';
+import { supabaseService } from './supabase';
+
+class TaskService {
+  // Open tasks first, soonest due date first; tasks without one after those with one
+  async getTasks(): Promise<RecordingTask[]> {
+    const client = await supabaseService.getAuthClient();
+    const { data, error } = await client
+      .from('recording_tasks')
+      .select('*, recordings(title)')
+      .order('completed', { ascending: true })
+      .order('due_date', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((record: DatabaseRecordingTask) => this.databaseTaskToTask(record));
+  }
+
+  async getRecordingTasks(recordingId: string): Promise<RecordingTask[]> {
+    const client = await supabaseService.getClient();
+    const { data, error } = await client
+      .from('recording_tasks')
+      .select('*')
+      .eq('recording_id', recordingId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((record: DatabaseRecordingTask) => this.databaseTaskToTask(record));
+  }
+
+  async setTaskCompleted(id: string, completed: boolean): Promise<void> {
+    const client = await supabaseService.getAuthClient();
+    const { error } = await client
+      .from('recording_tasks')
+      .update({
+        completed,
+        completed_at: completed ? new Date().toISOString() : null,
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // A new transcript replaces the open tasks found in the previous one; checked-off
+  // tasks are kept. Done in one database call so a failure leaves the old tasks.
+  async replaceRecordingTasks(recordingId: string, tasks: ExtractedTask[]): Promise<void> {
+    const client = await supabaseService.getClient();
+    const { error } = await client.rpc('replace_recording_tasks', {
+      p_recording_id: recordingId,
+      p_tasks: tasks.map(task => ({
+        text: task.text,
+        dueDate: task.dueDate ?? null,
+        people: task.people,
+      })),
+    });
+
+    if (error) throw error;
+  }
+
+  private databaseTaskToTask(record: DatabaseRecordingTask): RecordingTask {
+    return {
+      id: record.id,
+      recordingId: record.recording_id,
+      recordingTitle: record.recordings?.title ?? undefined,
+      text: record.text,
+      dueDate: record.due_date ?? undefined,
+      people: record.people ?? [],
+      completed: record.completed ?? false,
+      createdAt: new Date(record.created_at),
+    };
+  }
+}
+
+export const taskService = new TaskService();
\ No newline at end of file
@@ -0,0 +1,245 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+import { SUPABASE_URL } from '@/config/supabase.config';
+import { AssignedTag, ExtractedTask, RecipeOutput, SpeakerTurn, TranscriptSegment } from '@/types';
+import { AudioExtension, formatFileSize, getAudioFileType, getMaxTranscriptionBytes } from '@/utils/helpers';
+import { supabaseService } from './supabase';
+
+interface AudioTranscription {
+  transcript: string;
+  language?: string; // ISO 639-1 code, detected when auto-detect was requested
+  segments: TranscriptSegment[];
+  trimmed?: boolean; // The audio was cut to the trim window before transcription
+}
+
+interface TranscriptionResult {
+  processed: boolean; // false when processing failed and the rest is a placeholder
+  transcript: string;
+  correctedTranscript: string;
+  title: string;
+  translatedTranscript?: string; // English, when translation was asked for
+  recipeOutputs: RecipeOutput[];
+  summary?: string;
+  keyPoints?: string[];
+  tasks: ExtractedTask[];
+  tags: AssignedTag[];
+}
+
+interface ProcessOptions {
+  useDictionary?: boolean; // false skips dictionary corrections
+  translate?: boolean; // Also translate into English
+  language?: string; // Spoken language, so English recordings aren't translated
+  runRecipes?: boolean; // Run the user's enabled recipes on the corrected transcript
+  extractTasks?: boolean; // List action items with due dates and people
+  recordedAt?: string; // ISO timestamp that relative due dates are resolved against
+  summarize?: boolean; // Add a summary and key points
+  assignTags?: boolean; // Tag from the user's vocabulary, plus spoken and suggested tags
+}
+
+// The signed-in user's provider, model and dictionary are used; the edge
+// functions identify the user from the session token
+export interface TranscribeOptions {
+  recordingId?: string; // Lets the edge function report chunk progress on the recording
+  language?: string; // ISO 639-1 code, or 'auto' to have it detected
+  model?: string; // Overrides the user's model for this request
+  useDictionary?: boolean; // false sends no vocabulary hints
+  trimStart?: number; // Seconds of the file to transcribe; the rest is cut off on the server
+  trimEnd?: number;
+}
+
+class TranscriptionService {
+  async transcribeAudio(fileUri: string, options: TranscribeOptions = {}): Promise<AudioTranscription> {
+    try {
+      const { extension, contentType } = getAudioFileType(fileUri);
+      const filename = `audio.${extension}`;
+      const formData = new FormData();
+
+      // Send the file as a binary multipart part rather than base64, so it
+      // is streamed from disk instead of being held in memory several times over
+      if (Platform.OS === 'web') {
+        // Web recordings are extensionless blob: URLs, so go by the blob's type
+        const blob = await (await fetch(fileUri)).blob();
+        const blobExtension = blob.type.startsWith('audio/webm') ? 'webm' : extension;
+        this.assertWithinSizeLimit(blob.size, blobExtension);
+        formData.append('file', blob, `audio.${blobExtension}`);
+      } else {
+        const fileInfo = await FileSystem.getInfoAsync(fileUri);
+        if (!fileInfo.exists) {
+          throw new Error('Audio file does not exist');
+        }
+        this.assertWithinSizeLimit(fileInfo.size, extension);
+        // React Native uploads { uri, name, type } parts straight from the file
+        formData.append('file', { uri: fileUri, name: filename, type: contentType } as unknown as Blob);
+      }
+
+      console.log('Using filename for transcription:', filename);
+
+      return await this.requestTranscription(formData, options);
+    } catch (error) {
+      console.error('Failed to transcribe audio:', error);
+      throw error;
+    }
+  }
+
+  // Transcribes audio that was already uploaded, for when the local file is gone.
+  // The edge function fetches it from storage, so nothing is downloaded here.
+  async transcribeStoredAudio(audioUrl: string, options: TranscribeOptions = {}): Promise<AudioTranscription> {
+    try {
+      const formData = new FormData();
+      formData.append('audioUrl', audioUrl);
+
+      return await this.requestTranscription(formData, options);
+    } catch (error) {
+      console.error('Failed to transcribe stored audio:', error);
+      throw error;
+    }
+  }
+
+  private assertWithinSizeLimit(size: number, extension: AudioExtension) {
+    const maxBytes = getMaxTranscriptionBytes(extension);
+    if (size > maxBytes) {
+      throw new Error(
+        `Audio file is too large to transcribe (${formatFileSize(size)}, limit ${formatFileSize(maxBytes)} for ${extension}). ` +
+        'Try splitting long recordings in Settings.'
+      );
+    }
+  }
+
+  private async requestTranscription(
+    formData: FormData,
+    { recordingId, language, model, useDictionary, trimStart, trimEnd }: TranscribeOptions
+  ): Promise<AudioTranscription> {
+    if (recordingId) {
+      formData.append('recordingId', recordingId);
+    }
+    if (language) {
+      formData.append('language', language);
+    }
+    if (model) {
+      formData.append('model', model);
+    }
+    if (useDictionary === false) {
+      formData.append('useDictionary', 'false');
+    }
+    if (trimStart !== undefined && trimEnd !== undefined) {
+      formData.append('trimStart', String(trimStart));
+      formData.append('trimEnd', String(trimEnd));
+    }
+
+    // Call Supabase Edge Function
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/transcribe-audio`, {
+      method: 'POST',
+      headers: await supabaseService.getFunctionHeaders(),
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Transcription API error response:', errorText);
+      
+      try {
+        const error = JSON.parse(errorText);
+        throw new Error(`Transcription failed: ${JSON.stringify(error)}`);
+      } catch (e) {
+        throw new Error(`Transcription failed: ${errorText}`);
+      }
+    }
+
+    const result = await response.json();
+    return {
+      transcript: result.transcript || '',
+      language: result.language || undefined,
+      segments: result.segments || [],
+      trimmed: result.trimmed === true,
+    };
+  }
+
+  async processTranscript(
+    transcript: string,
+    {
+      useDictionary = true,
+      translate = false,
+      language,
+      runRecipes = false,
+      extractTasks = false,
+      recordedAt,
+      summarize = false,
+      assignTags = false,
+    }: ProcessOptions = {}
+  ): Promise<TranscriptionResult> {
+    try {
+      // Call Supabase Edge Function
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/process-transcript`, {
+        method: 'POST',
+        headers: {
+          ...await supabaseService.getFunctionHeaders(),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          transcript,
+          useDictionary,
+          translate,
+          language,
+          runRecipes,
+          extractTasks,
+          recordedAt,
+          summarize,
+          assignTags,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Processing failed');
+      }
+
+      const result = await response.json();
+
+      return {
+        processed: true,
+        transcript,
+        correctedTranscript: result.correctedTranscript || transcript,
+        title: result.title || 'Untitled Recording',
+        translatedTranscript: result.translatedTranscript || undefined,
+        recipeOutputs: result.recipeOutputs ?? [],
+        summary: result.summary || undefined,
+        keyPoints: result.keyPoints?.length ? result.keyPoints : undefined,
+        tasks: result.tasks ?? [],
+        tags: result.tags ?? [],
+      };
+    } catch (error) {
+      console.error('Failed to process transcript:', error);
+      // Return original transcript if processing fails
+      return {
+        processed: false,
+        transcript,
+        correctedTranscript: transcript,
+        title: 'Untitled Recording',
+        recipeOutputs: [],
+        tasks: [],
+        tags: [],
+      };
+    }
+  }
+
+  // Who spoke when, with speakers numbered "Speaker 1", "Speaker 2", ... by first appearance
+  async diarizeAudio(audioUrl: string): Promise<SpeakerTurn[]> {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/diarize-audio`, {
+      method: 'POST',
+      headers: {
+        ...await supabaseService.getFunctionHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ audioUrl }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(`Diarization failed: ${result.error || response.status}`);
+    }
+
+    return result.turns || [];
+  }
+}
+
+export const transcriptionService = new TranscriptionService();
\ No newline at end of file
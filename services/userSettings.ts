@@ -1,4 +1,5 @@
 import { Settings } from '@/types';
+import { DEFAULT_SETTINGS } from '@/utils/constants';
 import { supabaseService } from './supabase';
 import { storageService } from './storage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -43,6 +44,18 @@ class UserSettingsService {
       const settings: Settings = {
         webhookUrl: data.webhook_url || '',
         dictionary: data.dictionary || [],
+        audioQuality: data.audio_quality || DEFAULT_SETTINGS.audioQuality,
+        segmentMinutes: data.segment_minutes ?? DEFAULT_SETTINGS.segmentMinutes,
+        silenceTimeoutSeconds: data.silence_timeout_seconds ?? DEFAULT_SETTINGS.silenceTimeoutSeconds,
+        transcriptionLanguage: data.transcription_language || DEFAULT_SETTINGS.transcriptionLanguage,
+        transcriptionProvider: data.transcription_provider || DEFAULT_SETTINGS.transcriptionProvider,
+        transcriptionModel: data.transcription_model || '',
+        transcriptionBaseUrl: data.transcription_base_url || '',
+        transcriptionApiKeySet: data.transcription_api_key_set ?? false,
+        diarizationEnabled: data.diarization_enabled ?? DEFAULT_SETTINGS.diarizationEnabled,
+        promptWithRecentTitles: data.prompt_with_recent_titles ?? DEFAULT_SETTINGS.promptWithRecentTitles,
+        translateToEnglish: data.translate_to_english ?? DEFAULT_SETTINGS.translateToEnglish,
+        summaryMinSeconds: data.summary_min_seconds ?? DEFAULT_SETTINGS.summaryMinSeconds,
       };
 
       // Cache the settings
@@ -60,10 +73,7 @@ class UserSettingsService {
       }
       
       // Last resort: return default settings
-      return {
-        webhookUrl: '',
-        dictionary: [],
-      };
+      return { ...DEFAULT_SETTINGS };
     }
   }
 
@@ -81,6 +91,17 @@ class UserSettingsService {
       const profileData = {
         webhook_url: settings.webhookUrl,
         dictionary: settings.dictionary,
+        audio_quality: settings.audioQuality,
+        segment_minutes: settings.segmentMinutes,
+        silence_timeout_seconds: settings.silenceTimeoutSeconds,
+        transcription_language: settings.transcriptionLanguage,
+        transcription_provider: settings.transcriptionProvider,
+        transcription_model: settings.transcriptionModel || null,
+        transcription_base_url: settings.transcriptionBaseUrl || null,
+        diarization_enabled: settings.diarizationEnabled,
+        prompt_with_recent_titles: settings.promptWithRecentTitles,
+        translate_to_english: settings.translateToEnglish,
+        summary_min_seconds: settings.summaryMinSeconds,
         updated_at: new Date().toISOString(),
       };
 
@@ -102,6 +123,20 @@ class UserSettingsService {
     }
   }
 
+  // Write-only: the key goes to a table the app can't read back, and only
+  // transcriptionApiKeySet comes back with the settings. '' removes it.
+  async setTranscriptionApiKey(apiKey: string): Promise<void> {
+    const client = await supabaseService.getAuthClient();
+    const { error } = await client.rpc('set_transcription_api_key', { p_api_key: apiKey });
+
+    if (error) throw error;
+
+    if (this.settingsCache) {
+      this.settingsCache = { ...this.settingsCache, transcriptionApiKeySet: apiKey !== '' };
+      await AsyncStorage.setItem(USER_SETTINGS_CACHE_KEY, JSON.stringify(this.settingsCache));
+    }
+  }
+
   private async createUserProfile(userId: string, settings: Settings): Promise<Settings> {
     try {
       const client = await supabaseService.getAuthClient();
@@ -110,6 +145,17 @@ class UserSettingsService {
         id: userId,
         webhook_url: settings.webhookUrl,
         dictionary: settings.dictionary,
+        audio_quality: settings.audioQuality,
+        segment_minutes: settings.segmentMinutes,
+        silence_timeout_seconds: settings.silenceTimeoutSeconds,
+        transcription_language: settings.transcriptionLanguage,
+        transcription_provider: settings.transcriptionProvider,
+        transcription_model: settings.transcriptionModel || null,
+        transcription_base_url: settings.transcriptionBaseUrl || null,
+        diarization_enabled: settings.diarizationEnabled,
+        prompt_with_recent_titles: settings.promptWithRecentTitles,
+        translate_to_english: settings.translateToEnglish,
+        summary_min_seconds: settings.summaryMinSeconds,
       };
 
       const { error } = await client
@@ -140,13 +186,22 @@ class UserSettingsService {
       return {
         webhookUrl: localSettings.webhookUrl,
         dictionary: localSettings.dictionary,
+        audioQuality: localSettings.audioQuality,
+        segmentMinutes: localSettings.segmentMinutes,
+        silenceTimeoutSeconds: localSettings.silenceTimeoutSeconds,
+        transcriptionLanguage: localSettings.transcriptionLanguage,
+        transcriptionProvider: localSettings.transcriptionProvider,
+        transcriptionModel: localSettings.transcriptionModel,
+        transcriptionBaseUrl: localSettings.transcriptionBaseUrl,
+        transcriptionApiKeySet: false,
+        diarizationEnabled: localSettings.diarizationEnabled,
+        promptWithRecentTitles: localSettings.promptWithRecentTitles,
+        translateToEnglish: localSettings.translateToEnglish,
+        summaryMinSeconds: localSettings.summaryMinSeconds,
       };
     } catch (error) {
       console.error('Failed to migrate local settings:', error);
-      return {
-        webhookUrl: '',
-        dictionary: [],
-      };
+      return { ...DEFAULT_SETTINGS };
     }
   }
 
@@ -0,0 +1,140 @@
+import { RecordedAudio, Recorder, RecorderStartOptions } from '@/types';
+import { AUDIO_SETTINGS, METERING_FLOOR_DB } from '@/utils/constants';
+
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// Records in the browser with MediaRecorder. The result is an in-memory blob:
+// URL rather than a file, since expo-file-system isn't available on web.
+export class WebRecorder implements Recorder {
+  private mediaRecorder: MediaRecorder | null = null;
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private chunks: Blob[] = [];
+  private startedAt = 0;
+  private pausedAt: number | null = null;
+  private pausedTotal = 0;
+  private statusTimer: ReturnType<typeof setInterval> | null = null;
+
+  async requestPermissions(): Promise<boolean> {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      stream.getTracks().forEach(track => track.stop());
+      return true;
+    } catch (error) {
+      console.error('Failed to request audio permissions:', error);
+      return false;
+    }
+  }
+
+  async start({ quality, onStatus, statusInterval }: RecorderStartOptions): Promise<void> {
+    if (this.mediaRecorder) {
+      throw new Error('Recording already in progress');
+    }
+
+    const { sampleRate, numberOfChannels, bitRate } = AUDIO_SETTINGS[quality];
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { sampleRate, channelCount: numberOfChannels },
+    });
+    const mimeType = PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const mediaRecorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: bitRate });
+
+    this.chunks = [];
+    mediaRecorder.ondataavailable = event => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+
+    // MediaRecorder doesn't report levels, so measure them from the stream
+    this.audioContext = new AudioContext();
+    const analyser = this.audioContext.createAnalyser();
+    this.audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    mediaRecorder.start();
+    this.mediaRecorder = mediaRecorder;
+    this.stream = stream;
+    this.startedAt = Date.now();
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+
+    this.statusTimer = setInterval(() => {
+      if (mediaRecorder.state !== 'recording') return;
+
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      const metering = rms > 0 ? Math.max(20 * Math.log10(rms), METERING_FLOOR_DB) : METERING_FLOOR_DB;
+      onStatus({ durationMillis: this.getDurationMillis(), metering });
+    }, statusInterval);
+  }
+
+  async pause(): Promise<void> {
+    if (!this.mediaRecorder) {
+      throw new Error('No recording in progress');
+    }
+    this.mediaRecorder.pause();
+    this.pausedAt = Date.now();
+  }
+
+  async resume(): Promise<void> {
+    if (!this.mediaRecorder) {
+      throw new Error('No recording in progress');
+    }
+    this.mediaRecorder.resume();
+    if (this.pausedAt !== null) {
+      this.pausedTotal += Date.now() - this.pausedAt;
+      this.pausedAt = null;
+    }
+  }
+
+  async stop(): Promise<RecordedAudio> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) {
+      throw new Error('No recording in progress');
+    }
+
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+
+    const durationMillis = this.getDurationMillis();
+    const stopped = new Promise<void>(resolve => {
+      mediaRecorder.onstop = () => resolve();
+    });
+    mediaRecorder.stop();
+    await stopped;
+
+    this.stream?.getTracks().forEach(track => track.stop());
+    await this.audioContext?.close();
+    this.mediaRecorder = null;
+    this.stream = null;
+    this.audioContext = null;
+
+    const blob = new Blob(this.chunks, { type: mediaRecorder.mimeType });
+    this.chunks = [];
+
+    return { uri: URL.createObjectURL(blob), durationMillis };
+  }
+
+  getDurationAsync(uri: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const audio = new Audio();
+      audio.preload = 'metadata';
+      audio.onloadedmetadata = () => {
+        if (Number.isFinite(audio.duration)) {
+          resolve(Math.floor(audio.duration));
+        } else {
+          reject(new Error('Could not read audio duration'));
+        }
+      };
+      audio.onerror = () => reject(new Error('Could not read audio duration'));
+      audio.src = uri;
+    });
+  }
+
+  private getDurationMillis(): number {
+    const currentPause = this.pausedAt !== null ? Date.now() - this.pausedAt : 0;
+    return Date.now() - this.startedAt - this.pausedTotal - currentPause;
+  }
+}
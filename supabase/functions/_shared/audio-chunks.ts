@@ -0,0 +1,601 @@
+// Cuts audio into time-based pieces: chunks of a file too large for one
+// transcription request, or the stretch of a recording between its leading and
+// trailing silence. Edge functions can't run ffmpeg, so only formats that can
+// be cut without re-encoding are supported: WAV (PCM frames), MP3 (independent
+// frames) and m4a (AAC samples listed in the MP4 sample tables). webm is not.
+
+export interface AudioChunk {
+  blob: Blob
+  filename: string
+  offset: number // Seconds from the start of the original file
+}
+
+// Shorter chunks also keep each provider request well inside its timeout
+const CHUNK_SECONDS = 600
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+}
+
+function chunkFilename(filename: string, index: number): string {
+  const dot = filename.lastIndexOf('.')
+  return dot > 0
+    ? `${filename.slice(0, dot)}_chunk${index + 1}${filename.slice(dot)}`
+    : `${filename}_chunk${index + 1}`
+}
+
+interface WavLayout {
+  fmtChunk: Uint8Array
+  byteRate: number
+  blockAlign: number
+  dataStart: number
+  dataSize: number
+}
+
+function readWavLayout(bytes: Uint8Array): WavLayout {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Invalid WAV file')
+  }
+
+  let fmtChunk: Uint8Array | null = null
+  let byteRate = 0
+  let blockAlign = 0
+  let dataStart = -1
+  let dataSize = 0
+
+  let position = 12
+  while (position + 8 <= bytes.length) {
+    const id = readTag(view, position)
+    const size = view.getUint32(position + 4, true)
+
+    if (id === 'fmt ') {
+      fmtChunk = bytes.subarray(position, position + 8 + size)
+      byteRate = view.getUint32(position + 16, true)
+      blockAlign = view.getUint16(position + 20, true)
+    } else if (id === 'data') {
+      dataStart = position + 8
+      // Streamed recorders sometimes leave the size unset, so trust the file length
+      dataSize = Math.min(size || Infinity, bytes.length - dataStart)
+      break
+    }
+
+    position += 8 + size + (size % 2)
+  }
+
+  if (!fmtChunk || dataStart < 0 || !byteRate || !blockAlign) {
+    throw new Error('Invalid WAV file')
+  }
+
+  return { fmtChunk, byteRate, blockAlign, dataStart, dataSize }
+}
+
+function wavHeaderSize(fmtChunk: Uint8Array): number {
+  return 12 + fmtChunk.length + 8
+}
+
+// Wraps PCM frames in their own RIFF header around a copy of the original fmt chunk
+function buildWav(fmtChunk: Uint8Array, data: Uint8Array): Blob {
+  const headerSize = wavHeaderSize(fmtChunk)
+  const header = new DataView(new ArrayBuffer(headerSize))
+  const headerBytes = new Uint8Array(header.buffer)
+
+  headerBytes.set([0x52, 0x49, 0x46, 0x46], 0) // RIFF
+  header.setUint32(4, headerSize - 8 + data.length, true)
+  headerBytes.set([0x57, 0x41, 0x56, 0x45], 8) // WAVE
+  headerBytes.set(fmtChunk, 12)
+  headerBytes.set([0x64, 0x61, 0x74, 0x61], 12 + fmtChunk.length) // data
+  header.setUint32(16 + fmtChunk.length, data.length, true)
+
+  return new Blob([headerBytes, data], { type: 'audio/wav' })
+}
+
+function splitWav(bytes: Uint8Array, filename: string, maxChunkBytes: number): AudioChunk[] {
+  const { fmtChunk, byteRate, blockAlign, dataStart, dataSize } = readWavLayout(bytes)
+
+  const maxFrames = Math.floor((maxChunkBytes - wavHeaderSize(fmtChunk)) / blockAlign)
+  const chunkFrames = Math.min(maxFrames, Math.floor((CHUNK_SECONDS * byteRate) / blockAlign))
+  const chunkBytes = chunkFrames * blockAlign
+
+  const chunks: AudioChunk[] = []
+  for (let start = 0; start < dataSize; start += chunkBytes) {
+    const data = bytes.subarray(dataStart + start, dataStart + Math.min(start + chunkBytes, dataSize))
+    chunks.push({
+      blob: buildWav(fmtChunk, data),
+      filename: chunkFilename(filename, chunks.length),
+      offset: start / byteRate,
+    })
+  }
+
+  return chunks
+}
+
+function trimWav(bytes: Uint8Array, filename: string, startSeconds: number, endSeconds: number): AudioChunk | null {
+  const { fmtChunk, byteRate, blockAlign, dataStart, dataSize } = readWavLayout(bytes)
+
+  const start = Math.max(0, Math.floor((startSeconds * byteRate) / blockAlign) * blockAlign)
+  const end = Math.min(dataSize, Math.ceil((endSeconds * byteRate) / blockAlign) * blockAlign)
+  if (end <= start) return null
+
+  return {
+    blob: buildWav(fmtChunk, bytes.subarray(dataStart + start, dataStart + end)),
+    filename,
+    offset: start / byteRate,
+  }
+}
+
+// Layer III bitrates in kbps, indexed by the header's bitrate field
+const MP3_BITRATES = {
+  mpeg1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  mpeg2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+}
+
+const MP3_SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+}
+
+// Reads the Layer III frame header at position, or null if there isn't one
+function readMp3Frame(bytes: Uint8Array, position: number): { length: number; seconds: number } | null {
+  if (position + 4 > bytes.length) return null
+  if (bytes[position] !== 0xff || (bytes[position + 1] & 0xe0) !== 0xe0) return null
+
+  const version = (bytes[position + 1] >> 3) & 0x03
+  const layer = (bytes[position + 1] >> 1) & 0x03
+  const bitrateIndex = bytes[position + 2] >> 4
+  const sampleRateIndex = (bytes[position + 2] >> 2) & 0x03
+  const padding = (bytes[position + 2] >> 1) & 0x01
+
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null
+  }
+
+  const isMpeg1 = version === 3
+  const bitrate = (isMpeg1 ? MP3_BITRATES.mpeg1 : MP3_BITRATES.mpeg2)[bitrateIndex] * 1000
+  const sampleRate = MP3_SAMPLE_RATES[version][sampleRateIndex]
+  const samplesPerFrame = isMpeg1 ? 1152 : 576
+
+  return {
+    length: Math.floor(((samplesPerFrame / 8) * bitrate) / sampleRate) + padding,
+    seconds: samplesPerFrame / sampleRate,
+  }
+}
+
+interface Mp3Frame {
+  position: number
+  length: number
+  start: number // Seconds from the start of the file
+  seconds: number
+}
+
+function readMp3Frames(bytes: Uint8Array): Mp3Frame[] {
+  let position = 0
+
+  // Skip an ID3v2 tag; its size is stored as a 28-bit syncsafe integer
+  if (bytes[0] === 0x49 && bytes[1] === 0x44 && bytes[2] === 0x33) {
+    position = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9])
+  }
+
+  // Walk the frames, so offsets stay exact even for variable bitrate files
+  const frames: Mp3Frame[] = []
+  let elapsed = 0
+
+  while (position < bytes.length) {
+    const frame = readMp3Frame(bytes, position)
+    if (!frame) {
+      // Resync past junk between frames
+      position++
+      continue
+    }
+
+    const length = Math.min(frame.length, bytes.length - position)
+    frames.push({ position, length, start: elapsed, seconds: frame.seconds })
+    position += frame.length
+    elapsed += frame.seconds
+  }
+
+  if (frames.length === 0) {
+    throw new Error('Invalid MP3 file')
+  }
+
+  return frames
+}
+
+function sliceMp3(bytes: Uint8Array, frames: Mp3Frame[], filename: string): AudioChunk {
+  const first = frames[0]
+  const last = frames[frames.length - 1]
+  return {
+    blob: new Blob([bytes.subarray(first.position, last.position + last.length)], { type: 'audio/mpeg' }),
+    filename,
+    offset: first.start,
+  }
+}
+
+function splitMp3(bytes: Uint8Array, filename: string, maxChunkBytes: number): AudioChunk[] {
+  const chunks: AudioChunk[] = []
+  let current: Mp3Frame[] = []
+
+  for (const frame of readMp3Frames(bytes)) {
+    const first = current[0]
+    if (first && (
+      frame.start - first.start >= CHUNK_SECONDS ||
+      frame.position + frame.length - first.position > maxChunkBytes
+    )) {
+      chunks.push(sliceMp3(bytes, current, chunkFilename(filename, chunks.length)))
+      current = []
+    }
+    current.push(frame)
+  }
+  chunks.push(sliceMp3(bytes, current, chunkFilename(filename, chunks.length)))
+
+  return chunks
+}
+
+function trimMp3(bytes: Uint8Array, filename: string, startSeconds: number, endSeconds: number): AudioChunk | null {
+  const frames = readMp3Frames(bytes)
+    .filter(frame => frame.start + frame.seconds > startSeconds && frame.start < endSeconds)
+  return frames.length > 0 ? sliceMp3(bytes, frames, filename) : null
+}
+
+interface Mp4Box {
+  type: string
+  start: number
+  end: number
+  headerSize: number
+}
+
+// The one audio track of an m4a file, with its sample tables expanded
+interface M4aTrack {
+  ftyp: Uint8Array
+  mvhd: Uint8Array
+  tkhd: Uint8Array
+  mdhd: Uint8Array
+  mdiaBoxes: Uint8Array[] // hdlr and anything else copied as is
+  minfBoxes: Uint8Array[] // smhd, dinf
+  stsd: Uint8Array
+  timescale: number
+  sampleOffsets: number[]
+  sampleSizes: number[]
+  sampleTimes: number[] // In timescale units
+  sampleDurations: number[]
+}
+
+// Room for the rebuilt sample tables and box headers, on top of 4 bytes per sample
+const M4A_TABLE_OVERHEAD = 512
+
+function readBoxes(view: DataView, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = []
+  let position = start
+
+  while (position + 8 <= end) {
+    let size = view.getUint32(position)
+    const type = readTag(view, position + 4)
+    let headerSize = 8
+    if (size === 1) {
+      size = Number(view.getBigUint64(position + 8))
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - position
+    }
+    if (size < headerSize || position + size > end) break
+
+    boxes.push({ type, start: position, end: position + size, headerSize })
+    position += size
+  }
+
+  return boxes
+}
+
+function readChildBoxes(view: DataView, parent: Mp4Box): Mp4Box[] {
+  return readBoxes(view, parent.start + parent.headerSize, parent.end)
+}
+
+function requireBox(boxes: Mp4Box[], type: string): Mp4Box {
+  const box = boxes.find(candidate => candidate.type === type)
+  if (!box) {
+    throw new Error(`Invalid m4a file: no ${type} box`)
+  }
+  return box
+}
+
+function readM4aTrack(bytes: Uint8Array): M4aTrack {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const topLevel = readBoxes(view, 0, bytes.length)
+  const ftyp = requireBox(topLevel, 'ftyp')
+  const moovChildren = readChildBoxes(view, requireBox(topLevel, 'moov'))
+  const copy = (box: Mp4Box) => bytes.slice(box.start, box.end)
+
+  // Files with video as well keep their sound in the track with a 'soun' handler
+  const trak = moovChildren
+    .filter(box => box.type === 'trak')
+    .find(box => {
+      const mdia = readChildBoxes(view, box).find(child => child.type === 'mdia')
+      const hdlr = mdia && readChildBoxes(view, mdia).find(child => child.type === 'hdlr')
+      return !!hdlr && readTag(view, hdlr.start + hdlr.headerSize + 8) === 'soun'
+    })
+  if (!trak) {
+    throw new Error('Invalid m4a file: no audio track')
+  }
+
+  const trakChildren = readChildBoxes(view, trak)
+  const mdia = requireBox(trakChildren, 'mdia')
+  const mdiaChildren = readChildBoxes(view, mdia)
+  const mdhd = requireBox(mdiaChildren, 'mdhd')
+  const minf = requireBox(mdiaChildren, 'minf')
+  const minfChildren = readChildBoxes(view, minf)
+  const stbl = requireBox(minfChildren, 'stbl')
+  const stblChildren = readChildBoxes(view, stbl)
+
+  const mdhdVersion = bytes[mdhd.start + mdhd.headerSize]
+  const timescale = view.getUint32(mdhd.start + mdhd.headerSize + (mdhdVersion === 1 ? 20 : 12))
+
+  // Full boxes: the entries follow a version/flags word and an entry count
+  const stsz = requireBox(stblChildren, 'stsz')
+  const sampleSize = view.getUint32(stsz.start + stsz.headerSize + 4)
+  const sampleCount = view.getUint32(stsz.start + stsz.headerSize + 8)
+  const sampleSizes: number[] = []
+  for (let i = 0; i < sampleCount; i++) {
+    sampleSizes.push(sampleSize || view.getUint32(stsz.start + stsz.headerSize + 12 + i * 4))
+  }
+  if (sampleCount === 0) {
+    // Fragmented files keep their samples in moof boxes instead
+    throw new Error('This m4a file is fragmented, so it can\'t be cut without re-encoding')
+  }
+
+  const stts = requireBox(stblChildren, 'stts')
+  const sampleTimes: number[] = []
+  const sampleDurations: number[] = []
+  let time = 0
+  const sttsCount = view.getUint32(stts.start + stts.headerSize + 4)
+  for (let i = 0; i < sttsCount && sampleTimes.length < sampleCount; i++) {
+    const entry = stts.start + stts.headerSize + 8 + i * 8
+    const count = view.getUint32(entry)
+    const delta = view.getUint32(entry + 4)
+    for (let j = 0; j < count && sampleTimes.length < sampleCount; j++) {
+      sampleTimes.push(time)
+      sampleDurations.push(delta)
+      time += delta
+    }
+  }
+
+  const stco = stblChildren.find(box => box.type === 'stco' || box.type === 'co64')
+  if (!stco) {
+    throw new Error('Invalid m4a file: no chunk offsets')
+  }
+  const chunkOffsets: number[] = []
+  const chunkCount = view.getUint32(stco.start + stco.headerSize + 4)
+  for (let i = 0; i < chunkCount; i++) {
+    chunkOffsets.push(stco.type === 'co64'
+      ? Number(view.getBigUint64(stco.start + stco.headerSize + 8 + i * 8))
+      : view.getUint32(stco.start + stco.headerSize + 8 + i * 4))
+  }
+
+  // Samples sit back to back within each chunk; stsc says how many each chunk holds
+  const stsc = requireBox(stblChildren, 'stsc')
+  const stscCount = view.getUint32(stsc.start + stsc.headerSize + 4)
+  const sampleOffsets: number[] = []
+  for (let i = 0; i < stscCount; i++) {
+    const entry = stsc.start + stsc.headerSize + 8 + i * 12
+    const firstChunk = view.getUint32(entry)
+    const samplesPerChunk = view.getUint32(entry + 4)
+    const nextFirstChunk = i + 1 < stscCount ? view.getUint32(entry + 12) : chunkCount + 1
+
+    for (let chunk = firstChunk; chunk < nextFirstChunk && chunk <= chunkCount; chunk++) {
+      let offset = chunkOffsets[chunk - 1]
+      for (let j = 0; j < samplesPerChunk && sampleOffsets.length < sampleCount; j++) {
+        sampleOffsets.push(offset)
+        offset += sampleSizes[sampleOffsets.length - 1]
+      }
+    }
+  }
+
+  if (sampleOffsets.length < sampleCount || sampleTimes.length < sampleCount) {
+    throw new Error('Invalid m4a file: sample tables do not match')
+  }
+
+  return {
+    ftyp: copy(ftyp),
+    mvhd: copy(requireBox(moovChildren, 'mvhd')),
+    tkhd: copy(requireBox(trakChildren, 'tkhd')),
+    mdhd: copy(mdhd),
+    mdiaBoxes: mdiaChildren.filter(box => box.type !== 'mdhd' && box.type !== 'minf').map(copy),
+    minfBoxes: minfChildren.filter(box => box.type !== 'stbl').map(copy),
+    stsd: copy(requireBox(stblChildren, 'stsd')),
+    timescale,
+    sampleOffsets,
+    sampleSizes,
+    sampleTimes,
+    sampleDurations,
+  }
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    result.set(part, position)
+    position += part.length
+  }
+  return result
+}
+
+function mp4Box(type: string, ...children: Uint8Array[]): Uint8Array {
+  const body = concatBytes(children)
+  const header = new Uint8Array(8)
+  new DataView(header.buffer).setUint32(0, 8 + body.length)
+  header.set([...type].map(char => char.charCodeAt(0)), 4)
+  return concatBytes([header, body])
+}
+
+// A version 0 full box whose body is a list of 32-bit values
+function mp4TableBox(type: string, values: number[]): Uint8Array {
+  const body = new DataView(new ArrayBuffer(4 + values.length * 4))
+  values.forEach((value, i) => body.setUint32(4 + i * 4, value))
+  return mp4Box(type, new Uint8Array(body.buffer))
+}
+
+// Copies an mvhd, tkhd or mdhd box with its duration replaced
+function withDuration(source: Uint8Array, duration: number): Uint8Array {
+  const box = source.slice()
+  const view = new DataView(box.buffer)
+  const type = readTag(view, 4)
+  const isVersion1 = box[8] === 1
+  // After the version/flags word come creation and modification times, then
+  // tkhd has a track id and a reserved word where the others have a timescale
+  const position = 12 + (isVersion1 ? 16 : 8) + (type === 'tkhd' ? 8 : 4)
+  if (isVersion1) {
+    view.setBigUint64(position, BigInt(duration))
+  } else {
+    view.setUint32(position, Math.min(duration, 0xffffffff))
+  }
+  return box
+}
+
+function sliceM4a(bytes: Uint8Array, track: M4aTrack, first: number, last: number, filename: string): AudioChunk {
+  const indexes = Array.from({ length: last - first + 1 }, (_, i) => first + i)
+  const mediaDuration = indexes.reduce((total, i) => total + track.sampleDurations[i], 0)
+  const movieTimescale = new DataView(track.mvhd.buffer).getUint32(track.mvhd[8] === 1 ? 28 : 20)
+  const movieDuration = Math.round((mediaDuration / track.timescale) * movieTimescale)
+
+  // Equal sample durations collapse into one run, as AAC's 1024-sample frames do
+  const timeToSample: number[] = []
+  for (const i of indexes) {
+    const duration = track.sampleDurations[i]
+    if (timeToSample.length > 0 && timeToSample[timeToSample.length - 1] === duration) {
+      timeToSample[timeToSample.length - 2]++
+    } else {
+      timeToSample.push(1, duration)
+    }
+  }
+
+  // The samples go into one chunk at the start of mdat, right after moov
+  const buildMoov = (dataOffset: number) => mp4Box('moov',
+    withDuration(track.mvhd, movieDuration),
+    mp4Box('trak',
+      withDuration(track.tkhd, movieDuration),
+      mp4Box('mdia',
+        withDuration(track.mdhd, mediaDuration),
+        ...track.mdiaBoxes,
+        mp4Box('minf',
+          ...track.minfBoxes,
+          mp4Box('stbl',
+            track.stsd,
+            mp4TableBox('stts', [timeToSample.length / 2, ...timeToSample]),
+            mp4TableBox('stsc', [1, 1, indexes.length, 1]),
+            mp4TableBox('stsz', [0, indexes.length, ...indexes.map(i => track.sampleSizes[i])]),
+            mp4TableBox('stco', [1, dataOffset]),
+          ),
+        ),
+      ),
+    ),
+  )
+  const moovSize = buildMoov(0).length
+  const moov = buildMoov(track.ftyp.length + moovSize + 8)
+
+  const data = new Uint8Array(indexes.reduce((total, i) => total + track.sampleSizes[i], 0))
+  let position = 0
+  for (const i of indexes) {
+    data.set(bytes.subarray(track.sampleOffsets[i], track.sampleOffsets[i] + track.sampleSizes[i]), position)
+    position += track.sampleSizes[i]
+  }
+
+  const mdatHeader = new Uint8Array(8)
+  new DataView(mdatHeader.buffer).setUint32(0, 8 + data.length)
+  mdatHeader.set([0x6d, 0x64, 0x61, 0x74], 4) // mdat
+
+  return {
+    blob: new Blob([track.ftyp, moov, mdatHeader, data], { type: 'audio/mp4' }),
+    filename,
+    offset: track.sampleTimes[first] / track.timescale,
+  }
+}
+
+function splitM4a(bytes: Uint8Array, filename: string, maxChunkBytes: number): AudioChunk[] {
+  const track = readM4aTrack(bytes)
+  const overhead = track.ftyp.length + track.mvhd.length + track.tkhd.length + track.mdhd.length + track.stsd.length +
+    [...track.mdiaBoxes, ...track.minfBoxes].reduce((total, box) => total + box.length, 0) + M4A_TABLE_OVERHEAD
+  const maxSeconds = CHUNK_SECONDS * track.timescale
+
+  const chunks: AudioChunk[] = []
+  let first = 0
+  let chunkBytes = overhead
+  for (let i = 0; i < track.sampleSizes.length; i++) {
+    // Each sample also takes 4 bytes in stsz, plus a little for its stts run
+    const sampleBytes = track.sampleSizes[i] + 8
+    if (i > first && (
+      track.sampleTimes[i] - track.sampleTimes[first] >= maxSeconds ||
+      chunkBytes + sampleBytes > maxChunkBytes
+    )) {
+      chunks.push(sliceM4a(bytes, track, first, i - 1, chunkFilename(filename, chunks.length)))
+      first = i
+      chunkBytes = overhead
+    }
+    chunkBytes += sampleBytes
+  }
+  chunks.push(sliceM4a(bytes, track, first, track.sampleSizes.length - 1, chunkFilename(filename, chunks.length)))
+
+  return chunks
+}
+
+function trimM4a(bytes: Uint8Array, filename: string, startSeconds: number, endSeconds: number): AudioChunk | null {
+  const track = readM4aTrack(bytes)
+  const start = startSeconds * track.timescale
+  const end = endSeconds * track.timescale
+
+  let first = -1
+  let last = -1
+  for (let i = 0; i < track.sampleTimes.length; i++) {
+    if (track.sampleTimes[i] + track.sampleDurations[i] <= start) continue
+    if (track.sampleTimes[i] >= end) break
+    if (first < 0) first = i
+    last = i
+  }
+
+  return first < 0 ? null : sliceM4a(bytes, track, first, last, filename)
+}
+
+export function splitAudio(bytes: Uint8Array, filename: string, maxChunkBytes: number): AudioChunk[] {
+  const extension = filename.split('.').pop()?.toLowerCase()
+
+  switch (extension) {
+    case 'wav':
+      return splitWav(bytes, filename, maxChunkBytes)
+    case 'mp3':
+      return splitMp3(bytes, filename, maxChunkBytes)
+    case 'm4a':
+      return splitM4a(bytes, filename, maxChunkBytes)
+    default:
+      throw new Error(
+        `Audio over ${Math.round(maxChunkBytes / (1024 * 1024))} MB can only be split automatically when it is m4a, WAV or MP3. ` +
+        'Convert the file to one of those, or split it before importing.'
+      )
+  }
+}
+
+// Cuts the file down to the samples between startSeconds and endSeconds. Null
+// when the format can't be cut, or nothing falls in that window.
+export function trimAudio(
+  bytes: Uint8Array,
+  filename: string,
+  startSeconds: number,
+  endSeconds: number
+): AudioChunk | null {
+  const extension = filename.split('.').pop()?.toLowerCase()
+
+  switch (extension) {
+    case 'wav':
+      return trimWav(bytes, filename, startSeconds, endSeconds)
+    case 'mp3':
+      return trimMp3(bytes, filename, startSeconds, endSeconds)
+    case 'm4a':
+      return trimM4a(bytes, filename, startSeconds, endSeconds)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,21 @@
+import { createServiceClient } from './storage.ts'
+
+// Thrown when the request has no valid user session; handlers answer 401
+export class AuthError extends Error {}
+
+// The caller's user id, taken from the session JWT in the Authorization header.
+// Never trust a user id sent in the request body: functions use the service
+// role key, so that id decides whose data is read.
+export async function getRequestUserId(req: Request): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    throw new AuthError('Missing Authorization header')
+  }
+
+  const { data: { user }, error } = await createServiceClient().auth.getUser(token)
+  if (error || !user) {
+    throw new AuthError('Sign in to use this function')
+  }
+
+  return user.id
+}
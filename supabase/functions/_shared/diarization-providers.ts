@@ -0,0 +1,128 @@
+// Speaker diarization providers used by diarize-audio. Selected with the
+// DIARIZATION_PROVIDER env var so a self-hosted stand-in can replace the API.
+
+export interface SpeakerTurn {
+  start: number
+  end: number
+  speaker: string
+}
+
+export interface DiarizationProvider {
+  name: string
+  // audioUrl is a short-lived signed URL the provider downloads itself
+  diarize(audioUrl: string): Promise<SpeakerTurn[]>
+}
+
+const PYANNOTE_API_URL = 'https://api.pyannote.ai/v1'
+const PYANNOTE_POLL_INTERVAL = 3000
+const PYANNOTE_TIMEOUT = 120000
+
+// Hosted pyannote.ai: diarization runs as a job that is polled until it finishes
+export class PyannoteProvider implements DiarizationProvider {
+  readonly name = 'pyannote'
+
+  constructor(private readonly apiKey: string) {}
+
+  async diarize(audioUrl: string): Promise<SpeakerTurn[]> {
+    const response = await fetch(`${PYANNOTE_API_URL}/diarize`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ url: audioUrl }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Diarization failed: ${await response.text()}`)
+    }
+
+    const { jobId } = await response.json()
+    const deadline = Date.now() + PYANNOTE_TIMEOUT
+
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, PYANNOTE_POLL_INTERVAL))
+
+      const jobResponse = await fetch(`${PYANNOTE_API_URL}/jobs/${jobId}`, {
+        headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      })
+      if (!jobResponse.ok) {
+        throw new Error(`Diarization failed: ${await jobResponse.text()}`)
+      }
+
+      const job = await jobResponse.json()
+      if (job.status === 'succeeded') {
+        return job.output?.diarization ?? []
+      }
+      if (job.status === 'failed' || job.status === 'canceled') {
+        throw new Error(`Diarization job ${job.status}`)
+      }
+    }
+
+    throw new Error('Diarization timed out')
+  }
+}
+
+// Any server that accepts POST { url } and answers { segments: [{ start, end, speaker }] },
+// e.g. pyannote.audio running locally behind a small HTTP wrapper
+export class HttpDiarizationProvider implements DiarizationProvider {
+  readonly name = 'http'
+
+  constructor(private readonly url: string, private readonly apiKey: string | null) {}
+
+  async diarize(audioUrl: string): Promise<SpeakerTurn[]> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ url: audioUrl }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Diarization failed: ${await response.text()}`)
+    }
+
+    const result = await response.json()
+    return result.segments ?? []
+  }
+}
+
+export function createDiarizationProvider(): DiarizationProvider {
+  const provider = Deno.env.get('DIARIZATION_PROVIDER') ?? 'pyannote'
+
+  switch (provider) {
+    case 'http': {
+      const url = Deno.env.get('DIARIZATION_URL')
+      if (!url) {
+        throw new Error('DIARIZATION_URL not configured')
+      }
+      return new HttpDiarizationProvider(url, Deno.env.get('DIARIZATION_API_KEY') ?? null)
+    }
+
+    case 'pyannote': {
+      const apiKey = Deno.env.get('PYANNOTE_API_KEY')
+      if (!apiKey) {
+        throw new Error('PYANNOTE_API_KEY not configured')
+      }
+      return new PyannoteProvider(apiKey)
+    }
+
+    default:
+      throw new Error(`Unknown diarization provider: ${provider}`)
+  }
+}
+
+// Providers use their own ids (SPEAKER_00, A, ...); number speakers by when they first talk
+export function normalizeSpeakers(turns: SpeakerTurn[]): SpeakerTurn[] {
+  const names = new Map<string, string>()
+  return [...turns]
+    .sort((a, b) => a.start - b.start)
+    .map(turn => {
+      if (!names.has(turn.speaker)) {
+        names.set(turn.speaker, `Speaker ${names.size + 1}`)
+      }
+      return { start: turn.start, end: turn.end, speaker: names.get(turn.speaker)! }
+    })
+}
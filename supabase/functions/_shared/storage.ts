@@ -0,0 +1,27 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export function createServiceClient() {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+}
+
+// audio_url is the public URL of an object in the recordings bucket; the
+// bucket is usually private, so the object is fetched by path instead
+export function toStoragePath(audioUrl: string | null): string | null {
+  if (!audioUrl) return null
+  const match = new URL(audioUrl).pathname.match(/\/storage\/v1\/object\/(?:public|sign|authenticated)\/recordings\/(.+)$/)
+  if (!match) {
+    throw new Error('audioUrl does not point to the recordings bucket')
+  }
+  return decodeURIComponent(match[1])
+}
+
+// Uploads live under <userId>/, so only allow access to the caller's own files.
+// userId must come from getRequestUserId, never from the request body.
+export function assertOwnStoragePath(storagePath: string, userId: string) {
+  if (storagePath.includes('..') || !storagePath.startsWith(`${userId}/`)) {
+    throw new Error('Storage path does not belong to this user')
+  }
+}
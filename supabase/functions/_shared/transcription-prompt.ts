@@ -0,0 +1,48 @@
+// Builds the Whisper `prompt` that biases recognition toward the user's own
+// vocabulary. Whisper only reads the last 224 tokens of the prompt, so terms
+// are added in priority order until the budget is used up.
+
+const PROMPT_TOKEN_LIMIT = 224
+// The tokenizer isn't available here. ~3 characters per token stays under the
+// limit for Latin-script text. Arabic, CJK and other scripts can take several
+// tokens per character; Whisper's tokens are never shorter than a UTF-8 byte,
+// so counting their bytes can't undercount.
+const LATIN_CHARS_PER_TOKEN = 3
+const LATIN_MAX_CODE_POINT = 0x024f // End of Latin Extended-B
+const encoder = new TextEncoder()
+
+export interface TranscriptionPrompt {
+  prompt: string | null
+  terms: string[] // Dictionary terms and titles that made it into the prompt
+}
+
+function estimateTokens(text: string): number {
+  let latin = 0
+  let otherTokens = 0
+  for (const char of text) {
+    if (char.codePointAt(0)! <= LATIN_MAX_CODE_POINT) {
+      latin++
+    } else {
+      otherTokens += encoder.encode(char).length
+    }
+  }
+  return Math.ceil(latin / LATIN_CHARS_PER_TOKEN) + otherTokens
+}
+
+// Dictionary terms come first since they were added on purpose; recent titles
+// fill whatever room is left
+export function buildTranscriptionPrompt(dictionary: string[], recentTitles: string[] = []): TranscriptionPrompt {
+  const candidates = [...new Set([...dictionary, ...recentTitles].map(term => term.trim()).filter(Boolean))]
+  const terms: string[] = []
+
+  for (const term of candidates) {
+    const next = [...terms, term].join(', ') + '.'
+    if (estimateTokens(next) > PROMPT_TOKEN_LIMIT) continue
+    terms.push(term)
+  }
+
+  return {
+    prompt: terms.length > 0 ? terms.join(', ') + '.' : null,
+    terms,
+  }
+}
@@ -0,0 +1,220 @@
+// Speech-to-text providers used by transcribe-audio. Groq and self-hosted
+// servers (e.g. faster-whisper) both speak the OpenAI /audio/transcriptions API.
+
+export interface TranscriptionSegment {
+  start: number
+  end: number
+  text: string
+}
+
+export interface TranscriptionResult {
+  text: string
+  language: string | null // ISO 639-1 code
+  segments: TranscriptionSegment[]
+}
+
+export interface TranscriptionRequest {
+  audio: Blob
+  filename: string
+  language: string | null // null lets the provider detect it
+  prompt?: string | null // Vocabulary hint, e.g. names and jargon the user mentions
+}
+
+export interface TranscriptionProvider {
+  name: string
+  model: string
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResult>
+}
+
+// Per-user choice, read from user_profiles
+export interface TranscriptionProviderConfig {
+  provider?: string | null
+  model?: string | null
+  baseUrl?: string | null
+  apiKey?: string | null
+}
+
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1'
+const GROQ_DEFAULT_MODEL = 'whisper-large-v3-turbo'
+const OPENAI_COMPATIBLE_DEFAULT_MODEL = 'whisper-1'
+
+// Whisper reports the detected language by name; map it to an ISO 639-1 code
+const LANGUAGE_CODES: Record<string, string> = {
+  english: 'en',
+  arabic: 'ar',
+  french: 'fr',
+  spanish: 'es',
+  german: 'de',
+  portuguese: 'pt',
+  hindi: 'hi',
+  chinese: 'zh',
+  italian: 'it',
+  dutch: 'nl',
+  russian: 'ru',
+  japanese: 'ja',
+  korean: 'ko',
+  turkish: 'tr',
+  urdu: 'ur',
+}
+
+// Ranges a user-supplied server URL must not reach: loopback, private networks,
+// link-local (including cloud metadata at 169.254.169.254), CGNAT and multicast
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split('.').map(Number)
+  if (parts.length !== 4 || parts.some(part => !Number.isInteger(part))) return false
+
+  const [a, b] = parts
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || a >= 224
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '')
+  return normalized === '::'
+    || normalized === '::1'
+    || normalized.startsWith('::ffff:') // IPv4-mapped
+    || /^f[cd]/.test(normalized) // Unique local
+    || /^fe[89ab]/.test(normalized) // Link-local
+}
+
+function isPrivateAddress(address: string): boolean {
+  return address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address)
+}
+
+// The edge function fetches this URL with the user's audio, so it must be a
+// public https server; otherwise it could be pointed at internal services
+export async function assertPublicBaseUrl(baseUrl: string): Promise<void> {
+  let url: URL
+  try {
+    url = new URL(baseUrl)
+  } catch {
+    throw new Error(`Invalid transcription server URL: ${baseUrl}`)
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new Error('The transcription server URL must use https')
+  }
+
+  const hostname = url.hostname.toLowerCase()
+  if (
+    hostname === 'localhost'
+    || hostname.endsWith('.localhost')
+    || hostname.endsWith('.local')
+    || hostname.endsWith('.internal')
+    || isPrivateAddress(hostname)
+  ) {
+    throw new Error(`The transcription server must be on a public host, not ${hostname}`)
+  }
+
+  // A public name can still resolve to a private address
+  if (!/^[\d.]+$/.test(hostname) && !hostname.startsWith('[')) {
+    const lookups = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA'),
+    ])
+    const addresses = lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : [])
+    if (addresses.length === 0) {
+      throw new Error(`Could not resolve the transcription server ${hostname}`)
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new Error(`The transcription server must be on a public host, not ${hostname}`)
+    }
+  }
+}
+
+function toLanguageCode(language: string | undefined): string | null {
+  if (!language) return null
+  const normalized = language.trim().toLowerCase()
+  if (normalized.length === 2) return normalized
+  return LANGUAGE_CODES[normalized] ?? normalized
+}
+
+export class OpenAICompatibleProvider implements TranscriptionProvider {
+  constructor(
+    public readonly name: string,
+    public readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey: string | null,
+  ) {}
+
+  async transcribe({ audio, filename, language, prompt }: TranscriptionRequest): Promise<TranscriptionResult> {
+    const formData = new FormData()
+    formData.append('file', audio, filename)
+    formData.append('model', this.model)
+    // verbose_json includes the detected language and timed segments
+    formData.append('response_format', 'verbose_json')
+    if (language) {
+      formData.append('language', language)
+    }
+    if (prompt) {
+      formData.append('prompt', prompt)
+    }
+
+    console.log(`Sending to ${this.name} (${this.model}) with blob size:`, audio.size)
+
+    await assertPublicBaseUrl(this.baseUrl)
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      body: formData,
+      // A redirect could lead to an address the check above would reject
+      redirect: 'error',
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      console.error(`${this.name} API error:`, error)
+      throw new Error(`Transcription failed: ${error}`)
+    }
+
+    const result = await response.json()
+
+    return {
+      text: result.text || '',
+      language: language ?? toLanguageCode(result.language),
+      segments: (result.segments || []).map((segment: TranscriptionSegment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+      })),
+    }
+  }
+}
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  constructor(apiKey: string, model?: string | null) {
+    super('groq', model || GROQ_DEFAULT_MODEL, GROQ_BASE_URL, apiKey)
+  }
+}
+
+export function createTranscriptionProvider(config: TranscriptionProviderConfig = {}): TranscriptionProvider {
+  switch (config.provider ?? 'groq') {
+    case 'openai_compatible':
+      if (!config.baseUrl) {
+        throw new Error('No server URL configured for the OpenAI-compatible transcription provider')
+      }
+      return new OpenAICompatibleProvider(
+        'openai_compatible',
+        config.model || OPENAI_COMPATIBLE_DEFAULT_MODEL,
+        config.baseUrl,
+        config.apiKey ?? null,
+      )
+
+    case 'groq': {
+      const groqApiKey = Deno.env.get('GROQ_API_KEY')
+      if (!groqApiKey) {
+        throw new Error('GROQ_API_KEY not configured')
+      }
+      return new GroqProvider(groqApiKey, config.model)
+    }
+
+    default:
+      throw new Error(`Unknown transcription provider: ${config.provider}`)
+  }
+}
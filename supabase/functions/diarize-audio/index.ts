@@ -0,0 +1,60 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createDiarizationProvider, normalizeSpeakers } from '../_shared/diarization-providers.ts'
+import { AuthError, getRequestUserId } from '../_shared/auth.ts'
+import { assertOwnStoragePath, createServiceClient, toStoragePath } from '../_shared/storage.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Long enough for the provider to download the file, even when its job is queued
+const SIGNED_URL_EXPIRY = 60 * 60
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const userId = await getRequestUserId(req)
+    const { audioUrl } = await req.json()
+
+    const storagePath = toStoragePath(audioUrl)
+    if (!storagePath) {
+      throw new Error('No audio URL provided')
+    }
+    assertOwnStoragePath(storagePath, userId)
+
+    // The provider fetches the audio itself, so hand it a URL that works on a private bucket
+    const { data, error } = await createServiceClient().storage
+      .from('recordings')
+      .createSignedUrl(storagePath, SIGNED_URL_EXPIRY)
+
+    if (error || !data) {
+      throw new Error(`Could not sign ${storagePath}: ${error?.message ?? 'not found'}`)
+    }
+
+    const provider = createDiarizationProvider()
+    const turns = normalizeSpeakers(await provider.diarize(data.signedUrl))
+    console.log(`Diarized ${storagePath} with ${provider.name}:`, { turns: turns.length })
+
+    return new Response(
+      JSON.stringify({ turns, provider: provider.name }),
+      { 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    console.error('Diarize audio error:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      { 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: error instanceof AuthError ? 401 : 400,
+      }
+    )
+  }
+})
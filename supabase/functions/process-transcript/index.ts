@@ -1,11 +1,142 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { AuthError, getRequestUserId } from '../_shared/auth.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface Recipe {
+  id: string
+  name: string
+  prompt: string
+  output_schema: Record<string, any>
+}
+
+interface RecipeOutput {
+  recipeId: string
+  name: string
+  output?: Record<string, any>
+  error?: string
+}
+
+interface ExtractedTask {
+  text: string
+  dueDate?: string
+  people: string[]
+}
+
+// Drop malformed items rather than failing the whole transcript over them
+function normalizeTasks(tasks: unknown): ExtractedTask[] {
+  if (!Array.isArray(tasks)) return []
+
+  return tasks
+    .filter(task => typeof task?.text === 'string' && task.text.trim())
+    .map(task => ({
+      text: task.text.trim(),
+      dueDate: typeof task.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(task.dueDate) ? task.dueDate : undefined,
+      people: Array.isArray(task.people) ? task.people.filter((person: unknown) => typeof person === 'string') : [],
+    }))
+}
+
+interface AssignedTag {
+  name: string
+  source: 'auto' | 'suggested' | 'spoken'
+}
+
+// Same rule as the app: lowercase, no leading #, spaces become dashes
+function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+function normalizeTags(processed: Record<string, any>, vocabulary: string[]): AssignedTag[] {
+  const names = (value: unknown): string[] =>
+    Array.isArray(value)
+      ? value.filter((name): name is string => typeof name === 'string').map(normalizeTagName).filter(Boolean)
+      : []
+
+  const tags: AssignedTag[] = [
+    ...names(processed.spokenTags).map(name => ({ name, source: 'spoken' as const })),
+    // Picks must come from the vocabulary, anything else counts as a suggestion
+    ...names(processed.tags).map(name => ({
+      name,
+      source: vocabulary.includes(name) ? 'auto' as const : 'suggested' as const,
+    })),
+  ]
+  if (typeof processed.suggestedTag === 'string' && normalizeTagName(processed.suggestedTag)) {
+    tags.push({ name: normalizeTagName(processed.suggestedTag), source: 'suggested' })
+  }
+
+  return tags
+}
+
+// Top-level checks only: the model is steered by the schema, this catches answers that ignored it
+function schemaMismatch(schema: Record<string, any>, output: Record<string, any>): string | null {
+  for (const key of schema.required ?? []) {
+    if (output[key] === undefined || output[key] === null) {
+      return `Missing "${key}"`
+    }
+  }
+
+  for (const [key, property] of Object.entries<Record<string, any>>(schema.properties ?? {})) {
+    const value = output[key]
+    if (value === undefined || value === null || !property.type) continue
+
+    const actual = Array.isArray(value) ? 'array' : typeof value
+    const expected = property.type === 'integer' ? 'number' : property.type
+    if (actual !== expected) {
+      return `"${key}" should be ${property.type}`
+    }
+  }
+
+  return null
+}
+
+async function runRecipe(groqApiKey: string, recipe: Recipe, transcript: string): Promise<RecipeOutput> {
+  try {
+    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${groqApiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: 'llama-3.3-70b-versatile',
+        messages: [
+          {
+            role: 'system',
+            content: `You process voice note transcripts. Return only a JSON object matching this JSON Schema:\n${JSON.stringify(recipe.output_schema)}`,
+          },
+          {
+            role: 'user',
+            content: `${recipe.prompt}\n\nTranscript: "${transcript}"`,
+          },
+        ],
+        temperature: 0.3,
+        response_format: { type: 'json_object' },
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Recipe failed: ${await response.text()}`)
+    }
+
+    const result = await response.json()
+    const output = JSON.parse(result.choices[0].message.content)
+    const mismatch = schemaMismatch(recipe.output_schema, output)
+    if (mismatch) {
+      throw new Error(`Output did not match the schema: ${mismatch}`)
+    }
+
+    return { recipeId: recipe.id, name: recipe.name, output }
+  } catch (error) {
+    // One broken recipe shouldn't hold up the transcript or the other recipes
+    console.error(`Recipe ${recipe.id} error:`, error)
+    return { recipeId: recipe.id, name: recipe.name, error: error.message }
+  }
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -24,20 +155,32 @@ serve(async (req) => {
     // Get request body
     const body = await req.json()
     transcript = body.transcript
-    const userId = body.userId
+    const userId = await getRequestUserId(req)
+    // Re-transcriptions can opt out when the dictionary was making things worse
+    const useDictionary = body.useDictionary !== false
+    // Also produce an English translation, unless the recording is already in English
+    const translate = body.translate === true && body.language !== 'en'
+    // Only the queue asks for recipes, so other callers don't pay for them
+    const runRecipes = body.runRecipes === true
+    const extractTasks = body.extractTasks === true
+    // The caller decides from the recording length, short notes are covered by the title
+    const summarize = body.summarize === true
+    const assignTags = body.assignTags === true
+    // Relative due dates like "tomorrow" are resolved against the recording date
+    const recordedAt = (body.recordedAt ? new Date(body.recordedAt) : new Date()).toDateString()
     
     if (!transcript) {
       throw new Error('No transcript provided')
     }
 
-    // Get user's dictionary if userId provided
-    let dictionary: string[] = []
-    if (userId) {
-      const supabaseClient = createClient(
-        Deno.env.get('SUPABASE_URL') ?? '',
-        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-      )
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
 
+    // Get user's dictionary
+    let dictionary: string[] = []
+    if (useDictionary) {
       const { data: profile } = await supabaseClient
         .from('user_profiles')
         .select('dictionary')
@@ -49,18 +192,72 @@ serve(async (req) => {
       }
     }
 
-    // Create prompt for title generation and correction
-    const prompt = `Given this transcript, perform two tasks:
+    let tagVocabulary: string[] = []
+    if (assignTags) {
+      // Only tags the user kept; suggestions they haven't accepted aren't offered again as picks
+      const { data: tags } = await supabaseClient
+        .from('tags')
+        .select('name')
+        .eq('user_id', userId)
+        .eq('suggested', false)
+
+      tagVocabulary = (tags ?? []).map((tag: { name: string }) => tag.name)
+    }
+
+    // Create prompt for title generation, correction and the optional steps
+    const steps = [
+      `Generate a concise 3-5 word ${translate ? 'English ' : ''}title that captures the main topic`,
+      `Correct the transcript for proper capitalization and spelling${dictionary.length > 0 ? ` of these dictionary terms (ONLY if similar sounding words are present): ${dictionary.join(', ')}` : ''}`,
+    ]
+    const fields = [
+      '"title": "Generated Title Here"',
+      '"corrected": "Corrected transcript here"',
+    ]
+
+    if (translate) {
+      steps.push('Translate the corrected transcript into English, keeping dictionary terms and names as they are')
+      fields.push('"translated": "English translation here"')
+    }
+    if (summarize) {
+      steps.push(
+        `Summarize what the recording is about in 2-3 sentences${translate ? ' in English' : ''}, ` +
+        'and list its 3-7 most important points as short bullet phrases'
+      )
+      fields.push('"summary": "Short summary here"')
+      fields.push('"keyPoints": ["First key point", "Second key point"]')
+    }
+    if (extractTasks) {
+      steps.push(
+        'List the action items the speaker commits to or asks to be reminded of ("remind me to...", "I need to..."). ' +
+        `Give each a short imperative description, a due date as YYYY-MM-DD if one is mentioned (the recording was made ${recordedAt}), ` +
+        'and the names of people involved. Use an empty list when there are none'
+      )
+      fields.push('"tasks": [{ "text": "Call Anna about the lease", "dueDate": "2025-01-31" or null, "people": ["Anna"] }]')
+    }
+
+    if (assignTags) {
+      steps.push(
+        (tagVocabulary.length > 0
+          ? `Pick up to 3 tags that fit the recording from this list: ${tagVocabulary.join(', ')}. If none fit, suggest one new short lowercase tag`
+          : 'Suggest one short lowercase tag that categorizes the recording') +
+        '. Also list every tag the speaker explicitly asks for, like "tag work" or "hashtag ideas"'
+      )
+      fields.push('"tags": ["tag from the list"]')
+      fields.push('"suggestedTag": "new-tag" or null')
+      fields.push('"spokenTags": ["work"]')
+    }
+
+    const prompt = `Given this transcript, perform these steps:
 
-1. Generate a concise 3-5 word title that captures the main topic
-2. Correct the transcript for proper capitalization and spelling${dictionary.length > 0 ? ` of these dictionary terms (ONLY if similar sounding words are present): ${dictionary.join(', ')}` : ''}
+${steps.map((step, index) => `${index + 1}. ${step}`).join('\n')}
+
+Keep paragraph breaks, and leave speaker labels at the start of paragraphs (like "Speaker 1:") exactly as they are.
 
 Transcript: "${transcript}"
 
 Return JSON in this exact format:
 {
-  "title": "Generated Title Here",
-  "corrected": "Corrected transcript here"
+${fields.map(field => `  ${field}`).join(',\n')}
 }`
 
     // Call Groq API
@@ -94,11 +291,34 @@ Return JSON in this exact format:
 
     const result = await response.json()
     const processed = JSON.parse(result.choices[0].message.content)
+    const correctedTranscript = processed.corrected || transcript
+
+    let recipeOutputs: RecipeOutput[] = []
+    if (runRecipes) {
+      const { data: recipes } = await supabaseClient
+        .from('recipes')
+        .select('id, name, prompt, output_schema')
+        .eq('user_id', userId)
+        .eq('enabled', true)
+        .order('created_at', { ascending: true })
+
+      recipeOutputs = await Promise.all(
+        (recipes ?? []).map((recipe: Recipe) => runRecipe(groqApiKey, recipe, correctedTranscript))
+      )
+    }
 
     return new Response(
       JSON.stringify({
         title: processed.title || 'Untitled Recording',
-        correctedTranscript: processed.corrected || transcript,
+        correctedTranscript,
+        translatedTranscript: translate ? processed.translated || null : null,
+        recipeOutputs,
+        summary: summarize && typeof processed.summary === 'string' ? processed.summary : null,
+        keyPoints: summarize && Array.isArray(processed.keyPoints)
+          ? processed.keyPoints.filter((point: unknown) => typeof point === 'string')
+          : null,
+        tasks: extractTasks ? normalizeTasks(processed.tasks) : [],
+        tags: assignTags ? normalizeTags(processed, tagVocabulary) : [],
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -115,7 +335,7 @@ Return JSON in this exact format:
       }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
+        status: error instanceof AuthError ? 401 : 400,
       }
     )
   }
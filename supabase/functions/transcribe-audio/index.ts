@@ -1,10 +1,239 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { AudioChunk, splitAudio, trimAudio } from '../_shared/audio-chunks.ts'
+import { AuthError, getRequestUserId } from '../_shared/auth.ts'
+import { assertOwnStoragePath, createServiceClient, toStoragePath } from '../_shared/storage.ts'
+import {
+  createTranscriptionProvider,
+  TranscriptionProvider,
+  TranscriptionProviderConfig,
+  TranscriptionResult,
+} from '../_shared/transcription-providers.ts'
+import { buildTranscriptionPrompt, TranscriptionPrompt } from '../_shared/transcription-prompt.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+const RECENT_TITLE_COUNT = 10
+
+interface TranscriptionProfile {
+  providerConfig: TranscriptionProviderConfig
+  prompt: TranscriptionPrompt
+}
+
+// Provider and model are chosen per user; anyone without a profile uses Groq
+async function getTranscriptionProfile(
+  userId: string,
+  recordingId: string | null,
+  useDictionary: boolean
+): Promise<TranscriptionProfile> {
+  const supabaseClient = createServiceClient()
+  const { data: profile } = await supabaseClient
+    .from('user_profiles')
+    .select('transcription_provider, transcription_model, transcription_base_url, transcription_api_key_set, dictionary, prompt_with_recent_titles')
+    .eq('id', userId)
+    .single()
+
+  // Kept out of user_profiles so the app can't read it back
+  let apiKey: string | null = null
+  if (profile?.transcription_provider === 'openai_compatible' && profile.transcription_api_key_set) {
+    const { data: secret } = await supabaseClient
+      .from('user_transcription_secrets')
+      .select('api_key')
+      .eq('user_id', userId)
+      .single()
+    apiKey = secret?.api_key ?? null
+  }
+
+  let recentTitles: string[] = []
+  if (useDictionary && profile?.prompt_with_recent_titles) {
+    let query = supabaseClient
+      .from('recordings')
+      .select('title')
+      .eq('user_id', userId)
+      .not('title', 'is', null)
+      .order('timestamp', { ascending: false })
+      .limit(RECENT_TITLE_COUNT)
+    if (recordingId) {
+      query = query.neq('id', recordingId)
+    }
+
+    const { data: recordings } = await query
+    recentTitles = (recordings ?? [])
+      .map(recording => recording.title as string)
+      .filter(title => title !== 'Untitled Recording')
+  }
+
+  return {
+    providerConfig: {
+      provider: profile?.transcription_provider,
+      model: profile?.transcription_model,
+      baseUrl: profile?.transcription_base_url,
+      apiKey,
+    },
+    prompt: buildTranscriptionPrompt(useDictionary ? profile?.dictionary ?? [] : [], recentTitles),
+  }
+}
+
+// Largest file accepted at all; anything over the provider limit is split into chunks
+const MAX_AUDIO_BYTES = 100 * 1024 * 1024
+// Largest file the transcription provider accepts in one request (Groq's limit)
+const PROVIDER_MAX_BYTES = 25 * 1024 * 1024
+
+// Determine the correct MIME type based on filename
+function getMimeType(filename: string): string {
+  if (filename.endsWith('.webm')) return 'audio/webm'
+  if (filename.endsWith('.mp3')) return 'audio/mpeg'
+  if (filename.endsWith('.wav')) return 'audio/wav'
+  return 'audio/mp4'
+}
+
+function assertWithinSizeLimit(size: number) {
+  if (size > MAX_AUDIO_BYTES) {
+    const sizeMb = (size / (1024 * 1024)).toFixed(1)
+    throw new Error(`Audio file is too large (${sizeMb} MB, limit ${MAX_AUDIO_BYTES / (1024 * 1024)} MB)`)
+  }
+}
+
+function readUploadedAudio(file: FormDataEntryValue | null): { audioBlob: Blob; filename: string } {
+  if (!(file instanceof File)) {
+    throw new Error('No audio file provided')
+  }
+
+  console.log('Received audio file:', { filename: file.name, size: file.size })
+  assertWithinSizeLimit(file.size)
+
+  // Clients don't always send a content type, so go by the extension
+  const filename = file.name || 'audio.m4a'
+  return { audioBlob: new Blob([file], { type: getMimeType(filename) }), filename }
+}
+
+async function downloadStoredAudio(storagePath: string, userId: string): Promise<{ audioBlob: Blob; filename: string }> {
+  assertOwnStoragePath(storagePath, userId)
+
+  const { data, error } = await createServiceClient().storage
+    .from('recordings')
+    .download(storagePath)
+
+  if (error || !data) {
+    throw new Error(`Could not download ${storagePath}: ${error?.message ?? 'not found'}`)
+  }
+
+  const filename = storagePath.split('/').pop() || 'audio.m4a'
+  console.log('Downloaded stored audio:', { storagePath, size: data.size })
+  assertWithinSizeLimit(data.size)
+
+  return { audioBlob: new Blob([data], { type: getMimeType(filename) }), filename }
+}
+
+// Stored on the recording so the app can show "Transcribing 3/7"; cleared when done.
+// userId is the authenticated caller, so only their own recording is touched.
+async function reportChunkProgress(
+  recordingId: string | null,
+  userId: string,
+  done: number | null,
+  total: number | null
+) {
+  if (!recordingId) return
+
+  const { error } = await createServiceClient()
+    .from('recordings')
+    .update({ transcription_chunks_done: done, transcription_chunks_total: total })
+    .eq('id', recordingId)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Failed to record chunk progress:', error)
+  }
+}
+
+// Kept on the recording for the app to show, rather than returned: the terms
+// come from the user's dictionary and recording titles
+async function savePromptTerms(recordingId: string | null, userId: string, terms: string[]) {
+  if (!recordingId) return
+
+  const { error } = await createServiceClient()
+    .from('recordings')
+    .update({ prompt_terms: terms })
+    .eq('id', recordingId)
+    .eq('user_id', userId)
+
+  if (error) {
+    console.error('Failed to save prompt terms:', error)
+  }
+}
+
+// Cuts leading and trailing silence off before transcription, so dead air isn't
+// sent to the provider. Formats that can't be cut are transcribed whole.
+async function trimToWindow(
+  audioBlob: Blob,
+  filename: string,
+  trimStart: number | null,
+  trimEnd: number | null
+): Promise<{ audio: Blob; offset: number; trimmed: boolean }> {
+  if (trimStart === null || trimEnd === null) {
+    return { audio: audioBlob, offset: 0, trimmed: false }
+  }
+
+  let trimmed: AudioChunk | null = null
+  try {
+    trimmed = trimAudio(new Uint8Array(await audioBlob.arrayBuffer()), filename, trimStart, trimEnd)
+  } catch (error) {
+    // e.g. an m4a written in fragments; the transcript is trimmed by the app instead
+    console.warn(`Could not trim ${filename}:`, error)
+  }
+  if (!trimmed) {
+    console.log(`Not trimming ${filename}: its format can't be cut, or nothing is in the window`)
+    return { audio: audioBlob, offset: 0, trimmed: false }
+  }
+
+  console.log('Trimmed audio:', { filename, trimStart, trimEnd, size: trimmed.blob.size })
+  return { audio: trimmed.blob, offset: trimmed.offset, trimmed: true }
+}
+
+function parseSeconds(value: FormDataEntryValue | null): number | null {
+  const seconds = typeof value === 'string' && value !== '' ? Number(value) : NaN
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null
+}
+
+async function transcribeInChunks(
+  provider: TranscriptionProvider,
+  audio: Blob,
+  filename: string,
+  language: string | null,
+  prompt: string | null,
+  onProgress: (done: number, total: number) => Promise<void>
+): Promise<TranscriptionResult> {
+  const chunks = splitAudio(new Uint8Array(await audio.arrayBuffer()), filename, PROVIDER_MAX_BYTES)
+  console.log(`Transcribing ${filename} in ${chunks.length} chunks`)
+
+  const texts: string[] = []
+  const merged: TranscriptionResult = { text: '', language, segments: [] }
+
+  for (const [index, chunk] of chunks.entries()) {
+    await onProgress(index, chunks.length)
+
+    // Once detected, keep the language fixed so every chunk is transcribed the same way
+    const result = await provider.transcribe({
+      audio: chunk.blob,
+      filename: chunk.filename,
+      language: merged.language,
+      prompt,
+    })
+    texts.push(result.text.trim())
+    merged.language = merged.language ?? result.language
+    merged.segments.push(...result.segments.map(segment => ({
+      start: segment.start + chunk.offset,
+      end: segment.end + chunk.offset,
+      text: segment.text,
+    })))
+  }
+
+  merged.text = texts.filter(Boolean).join(' ')
+  return merged
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -12,72 +241,61 @@ serve(async (req) => {
   }
 
   try {
-    const groqApiKey = Deno.env.get('GROQ_API_KEY')
-    if (!groqApiKey) {
-      throw new Error('GROQ_API_KEY not configured')
-    }
+    const userId = await getRequestUserId(req)
 
     // Get the form data
     const formData = await req.formData()
-    const base64Audio = formData.get('file') as string
-    const filename = formData.get('filename') as string || 'audio.m4a'
-    
-    console.log('Received audio file:', { 
-      filename, 
-      base64Length: base64Audio?.length || 0 
-    })
-    
-    if (!base64Audio) {
-      throw new Error('No audio file provided')
-    }
+    const recordingId = formData.get('recordingId') as string | null
+    // Per-request overrides, used when re-transcribing a recording
+    const modelOverride = formData.get('model') as string | null
+    const useDictionary = formData.get('useDictionary') !== 'false'
+    // ISO 639-1 code, or 'auto' / missing to let Whisper detect it
+    const requestedLanguage = formData.get('language') as string | null
+    const language = requestedLanguage && requestedLanguage !== 'auto' ? requestedLanguage : null
+    // Seconds of the file between its leading and trailing silence
+    const trimStart = parseSeconds(formData.get('trimStart'))
+    const trimEnd = parseSeconds(formData.get('trimEnd'))
 
-    // Convert base64 to blob
-    const binaryString = atob(base64Audio)
-    const bytes = new Uint8Array(binaryString.length)
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
-    }
-    
-    // Determine the correct MIME type based on filename
-    let mimeType = 'audio/mp4'
-    if (filename.endsWith('.m4a')) {
-      mimeType = 'audio/mp4'
-    } else if (filename.endsWith('.webm')) {
-      mimeType = 'audio/webm'
-    } else if (filename.endsWith('.mp3')) {
-      mimeType = 'audio/mpeg'
-    }
-    
-    const audioBlob = new Blob([bytes], { type: mimeType })
-
-    // Create form data for Groq API
-    const groqFormData = new FormData()
-    groqFormData.append('file', audioBlob, filename)
-    groqFormData.append('model', 'whisper-large-v3-turbo')
-    groqFormData.append('response_format', 'json')
-    groqFormData.append('language', 'en')
-
-    // Send to Groq API
-    console.log('Sending to Groq API with blob size:', audioBlob.size)
-    
-    const response = await fetch('https://api.groq.com/openai/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${groqApiKey}`,
-      },
-      body: groqFormData,
-    })
+    // Audio arrives either as a binary file part, or as a reference to an
+    // object already uploaded to the recordings bucket (storagePath or audioUrl)
+    const storagePath = (formData.get('storagePath') as string | null)
+      ?? toStoragePath(formData.get('audioUrl') as string | null)
 
-    if (!response.ok) {
-      const error = await response.text()
-      console.error('Groq API error:', error)
-      throw new Error(`Transcription failed: ${error}`)
+    const { audioBlob, filename } = storagePath
+      ? await downloadStoredAudio(storagePath, userId)
+      : readUploadedAudio(formData.get('file'))
+    const { audio, offset, trimmed } = await trimToWindow(audioBlob, filename, trimStart, trimEnd)
+
+    const { providerConfig, prompt } = await getTranscriptionProfile(userId, recordingId, useDictionary)
+    const provider = createTranscriptionProvider({ ...providerConfig, model: modelOverride || providerConfig.model })
+    let result: TranscriptionResult
+    if (audio.size <= PROVIDER_MAX_BYTES) {
+      result = await provider.transcribe({ audio, filename, language, prompt: prompt.prompt })
+    } else {
+      try {
+        result = await transcribeInChunks(provider, audio, filename, language, prompt.prompt, (done, total) =>
+          reportChunkProgress(recordingId, userId, done, total)
+        )
+      } finally {
+        await reportChunkProgress(recordingId, userId, null, null)
+      }
     }
+    await savePromptTerms(recordingId, userId, prompt.terms)
 
-    const result = await response.json()
-    
     return new Response(
-      JSON.stringify({ transcript: result.text || '' }),
+      JSON.stringify({
+        transcript: result.text,
+        language: result.language,
+        // Timed from the start of the original file, trimmed or not
+        segments: result.segments.map(segment => ({
+          ...segment,
+          start: segment.start + offset,
+          end: segment.end + offset,
+        })),
+        trimmed,
+        provider: provider.name,
+        model: provider.model,
+      }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -89,8 +307,8 @@ serve(async (req) => {
       JSON.stringify({ error: error.message }),
       { 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
+        status: error instanceof AuthError ? 401 : 400,
       }
     )
   }
-})
\ No newline at end of file
+})
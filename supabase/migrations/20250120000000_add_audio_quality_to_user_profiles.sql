@@ -0,0 +1,9 @@
+-- Add audio quality preference to user_profiles
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS audio_quality TEXT DEFAULT 'HIGH';
+
+-- Only allow the presets defined in AUDIO_SETTINGS
+ALTER TABLE user_profiles
+ADD CONSTRAINT user_profiles_audio_quality_check CHECK (audio_quality IN ('LOW', 'MEDIUM', 'HIGH'));
+
+COMMENT ON COLUMN user_profiles.audio_quality IS 'Recording preset used by the app: LOW, MEDIUM or HIGH';
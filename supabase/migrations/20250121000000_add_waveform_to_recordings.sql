@@ -0,0 +1,5 @@
+-- Store downsampled input levels so the app can draw a waveform thumbnail per recording
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS waveform JSONB;
+
+COMMENT ON COLUMN recordings.waveform IS 'Array of 0..1 input levels captured while recording, downsampled for display';
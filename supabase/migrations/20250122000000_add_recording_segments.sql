@@ -0,0 +1,12 @@
+-- Support segmented recordings that roll to a new file every N minutes
+
+-- Per-user chunk length in minutes, 0 disables segmenting
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS segment_minutes INTEGER DEFAULT 0 CHECK (segment_minutes >= 0);
+
+-- Chunks of a segmented recording: [{ index, duration, audio_url, transcript }]
+-- Each chunk is uploaded and transcribed on its own, then stitched into transcript
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS segments JSONB;
+
+COMMENT ON COLUMN recordings.segments IS 'Ordered chunks of a segmented recording with per-chunk audio_url and transcript';
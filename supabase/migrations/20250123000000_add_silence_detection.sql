@@ -0,0 +1,13 @@
+-- Silence detection: auto-stop preference and non-destructive trim points
+
+-- Seconds of continuous silence before recording stops automatically, 0 disables it
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS silence_timeout_seconds INTEGER DEFAULT 0 CHECK (silence_timeout_seconds >= 0);
+
+-- Leading/trailing silence detected on device, in seconds from the start of the audio
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS trim_start REAL,
+ADD COLUMN IF NOT EXISTS trim_end REAL;
+
+COMMENT ON COLUMN recordings.trim_start IS 'Seconds of leading silence detected while recording';
+COMMENT ON COLUMN recordings.trim_end IS 'Offset in seconds where trailing silence begins';
@@ -0,0 +1,5 @@
+-- Bookmarks dropped while recording, as [{ "offset": seconds, "label": text? }]
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS markers JSONB;
+
+COMMENT ON COLUMN recordings.markers IS 'Markers tapped during recording, offsets in seconds from the start';
@@ -0,0 +1,5 @@
+-- Tag passed by the secretary://record deep link, e.g. from an automation app or NFC tag
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS capture_tag TEXT;
+
+COMMENT ON COLUMN recordings.capture_tag IS 'Tag from the deep link that started the recording';
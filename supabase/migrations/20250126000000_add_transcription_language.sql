@@ -0,0 +1,10 @@
+-- Transcription language preference and the language each recording was transcribed in
+
+-- ISO 639-1 code, or 'auto' to let the provider detect the language
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS transcription_language TEXT DEFAULT 'en';
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS language TEXT;
+
+COMMENT ON COLUMN recordings.language IS 'ISO 639-1 code of the language the recording was transcribed in';
@@ -0,0 +1,5 @@
+-- Timed transcript segments from Whisper, as [{ "start": seconds, "end": seconds, "text": text }]
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcript_segments JSONB;
+
+COMMENT ON COLUMN recordings.transcript_segments IS 'Whisper segments with start/end in seconds from the start of the recording';
@@ -0,0 +1,11 @@
+-- Per-user choice of speech-to-text provider and model
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS transcription_provider TEXT DEFAULT 'groq'
+  CHECK (transcription_provider IN ('groq', 'openai_compatible')),
+ADD COLUMN IF NOT EXISTS transcription_model TEXT,
+ADD COLUMN IF NOT EXISTS transcription_base_url TEXT,
+ADD COLUMN IF NOT EXISTS transcription_api_key TEXT;
+
+COMMENT ON COLUMN user_profiles.transcription_model IS 'Model passed to the provider; NULL uses the provider default';
+COMMENT ON COLUMN user_profiles.transcription_base_url IS 'Base URL of an OpenAI-compatible server, e.g. https://whisper.example.com/v1';
@@ -0,0 +1,7 @@
+-- Progress of transcribe-audio when it splits an oversized file into chunks
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcription_chunks_done INTEGER,
+ADD COLUMN IF NOT EXISTS transcription_chunks_total INTEGER;
+
+COMMENT ON COLUMN recordings.transcription_chunks_total IS 'Number of chunks being transcribed; NULL when the file is sent in one request';
@@ -0,0 +1,10 @@
+-- Optional speaker diarization. Speaker ids live on each entry of
+-- transcript_segments; speaker_names maps them to names given per recording.
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS diarization_enabled BOOLEAN DEFAULT false;
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS speaker_names JSONB;
+
+COMMENT ON COLUMN recordings.speaker_names IS 'Names for diarized speakers, e.g. {"Speaker 1": "Alice"}';
@@ -0,0 +1,9 @@
+-- Dictionary terms (and optionally recent titles) passed to Whisper as its prompt
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS prompt_with_recent_titles BOOLEAN DEFAULT false;
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS prompt_terms TEXT[];
+
+COMMENT ON COLUMN recordings.prompt_terms IS 'Terms that fit in the transcription prompt for this recording';
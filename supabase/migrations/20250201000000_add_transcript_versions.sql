@@ -0,0 +1,8 @@
+-- Re-transcription: choices for the next run, and the transcripts it replaced
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcription_overrides JSONB,
+ADD COLUMN IF NOT EXISTS transcript_versions JSONB DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN recordings.transcription_overrides IS 'Model, language and useDictionary chosen with Re-transcribe; NULL uses the user settings';
+COMMENT ON COLUMN recordings.transcript_versions IS 'Earlier transcripts, oldest first, each with the time it was replaced';
@@ -0,0 +1,10 @@
+-- Translate-to-English mode: the user preference and the English transcript it produces
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS translate_to_english BOOLEAN DEFAULT false;
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS translated_transcript TEXT;
+
+COMMENT ON COLUMN user_profiles.translate_to_english IS 'Also translate non-English transcripts into English';
+COMMENT ON COLUMN recordings.translated_transcript IS 'English translation of corrected_transcript; NULL when translation was off or the recording was in English';
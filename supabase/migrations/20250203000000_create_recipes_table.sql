@@ -0,0 +1,39 @@
+-- Post-processing recipes: user-written prompts run on each transcript after it is corrected
+CREATE TABLE IF NOT EXISTS recipes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    output_schema JSONB NOT NULL DEFAULT '{}'::jsonb,
+    enabled BOOLEAN DEFAULT true,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recipes_user_id ON recipes(user_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE
+    ON recipes FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own recipes" ON recipes
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recipes" ON recipes
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recipes" ON recipes
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recipes" ON recipes
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Outputs of the recipes run on a recording, as [{ "recipeId", "name", "output"?, "error"? }]
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS recipe_outputs JSONB;
+
+COMMENT ON COLUMN recipes.output_schema IS 'JSON Schema the recipe output must match; the model is asked for a JSON object in this shape';
+COMMENT ON COLUMN recordings.recipe_outputs IS 'Structured outputs of the enabled recipes, in recipe order';
@@ -0,0 +1,38 @@
+-- Action items extracted from transcripts ("remind me to...", "I need to...")
+CREATE TABLE IF NOT EXISTS recording_tasks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recording_id TEXT REFERENCES recordings(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    text TEXT NOT NULL,
+    due_date DATE,
+    people JSONB DEFAULT '[]'::jsonb,
+    completed BOOLEAN DEFAULT false,
+    completed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recording_tasks_user_id ON recording_tasks(user_id);
+CREATE INDEX IF NOT EXISTS idx_recording_tasks_recording_id ON recording_tasks(recording_id);
+
+-- Create updated_at trigger
+CREATE TRIGGER update_recording_tasks_updated_at BEFORE UPDATE
+    ON recording_tasks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE recording_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tasks" ON recording_tasks
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tasks" ON recording_tasks
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tasks" ON recording_tasks
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tasks" ON recording_tasks
+    FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN recording_tasks.due_date IS 'Due date resolved against the recording date, when one was mentioned';
+COMMENT ON COLUMN recording_tasks.people IS 'Names of people mentioned with the task';
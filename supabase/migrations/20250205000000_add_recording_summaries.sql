@@ -0,0 +1,12 @@
+-- Summaries and key points for recordings over a user-chosen length
+
+-- Seconds a recording must last to be summarized, 0 disables summaries
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS summary_min_seconds INTEGER DEFAULT 120 CHECK (summary_min_seconds >= 0);
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS summary TEXT,
+ADD COLUMN IF NOT EXISTS key_points JSONB;
+
+COMMENT ON COLUMN recordings.summary IS 'Two or three sentence summary, set when the recording was over the summary threshold';
+COMMENT ON COLUMN recordings.key_points IS 'Most important points of the recording, as an array of short phrases';
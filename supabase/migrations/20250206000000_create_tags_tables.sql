@@ -0,0 +1,50 @@
+-- Tags: a per-user vocabulary, and the tags applied to each recording
+CREATE TABLE IF NOT EXISTS tags (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users NOT NULL,
+    name TEXT NOT NULL,
+    suggested BOOLEAN DEFAULT false,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE (user_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS recording_tags (
+    recording_id TEXT REFERENCES recordings(id) ON DELETE CASCADE NOT NULL,
+    tag_id UUID REFERENCES tags(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users NOT NULL,
+    source TEXT NOT NULL DEFAULT 'auto' CHECK (source IN ('auto', 'suggested', 'spoken')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (recording_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tags_user_id ON tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_recording_tags_tag_id ON recording_tags(tag_id);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recording_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tags" ON tags
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own tags" ON tags
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own tags" ON tags
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tags" ON tags
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own recording tags" ON recording_tags
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recording tags" ON recording_tags
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recording tags" ON recording_tags
+    FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN tags.name IS 'Lowercase tag name, without a leading #';
+COMMENT ON COLUMN tags.suggested IS 'Proposed by processing because no existing tag fit; cleared when the user keeps it';
+COMMENT ON COLUMN recording_tags.source IS 'auto: picked from the vocabulary, suggested: newly proposed, spoken: said aloud like "tag work"';
@@ -0,0 +1,59 @@
+-- Move the OpenAI-compatible provider's API key out of user_profiles, which the
+-- app reads with select('*'). The key is write-only from the app: it is set
+-- through set_transcription_api_key and only read by edge functions using the
+-- service role. user_profiles keeps a flag so settings can show a key is saved.
+
+CREATE TABLE IF NOT EXISTS user_transcription_secrets (
+    user_id UUID REFERENCES auth.users ON DELETE CASCADE PRIMARY KEY,
+    api_key TEXT NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- RLS with no policies: only the service role and the function below can touch it
+ALTER TABLE user_transcription_secrets ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON user_transcription_secrets FROM anon, authenticated;
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS transcription_api_key_set BOOLEAN DEFAULT false;
+
+-- Carry over keys saved before the move
+INSERT INTO user_transcription_secrets (user_id, api_key)
+SELECT id, transcription_api_key
+FROM user_profiles
+WHERE transcription_api_key IS NOT NULL AND transcription_api_key <> ''
+ON CONFLICT (user_id) DO NOTHING;
+
+UPDATE user_profiles
+SET transcription_api_key_set = true
+WHERE transcription_api_key IS NOT NULL AND transcription_api_key <> '';
+
+ALTER TABLE user_profiles DROP COLUMN IF EXISTS transcription_api_key;
+
+-- Saves the caller's key, or removes it when given NULL or ''
+CREATE OR REPLACE FUNCTION set_transcription_api_key(p_api_key TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_api_key IS NULL OR p_api_key = '' THEN
+        DELETE FROM user_transcription_secrets WHERE user_id = auth.uid();
+    ELSE
+        INSERT INTO user_transcription_secrets (user_id, api_key, updated_at)
+        VALUES (auth.uid(), p_api_key, NOW())
+        ON CONFLICT (user_id) DO UPDATE
+        SET api_key = EXCLUDED.api_key, updated_at = EXCLUDED.updated_at;
+    END IF;
+
+    UPDATE user_profiles
+    SET transcription_api_key_set = (p_api_key IS NOT NULL AND p_api_key <> '')
+    WHERE id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_transcription_api_key FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_transcription_api_key TO authenticated;
+
+COMMENT ON TABLE user_transcription_secrets IS 'API keys for user-configured transcription servers; never readable by the app';
+COMMENT ON COLUMN user_profiles.transcription_api_key_set IS 'Whether user_transcription_secrets holds a key for this user';
@@ -0,0 +1,39 @@
+-- Swap in the tasks extracted from a new transcript in one transaction, so a
+-- failure can't leave a recording with no tasks. Tasks already checked off are
+-- kept, and a re-extracted task with the same text stays checked off rather
+-- than coming back open.
+CREATE OR REPLACE FUNCTION replace_recording_tasks(
+    p_recording_id TEXT,
+    p_tasks JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM recordings
+        WHERE id = p_recording_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Recording % not found', p_recording_id;
+    END IF;
+
+    DELETE FROM recording_tasks
+    WHERE recording_id = p_recording_id
+      AND NOT COALESCE(completed, false);
+
+    INSERT INTO recording_tasks (recording_id, user_id, text, due_date, people)
+    SELECT
+        p_recording_id,
+        auth.uid(),
+        task->>'text',
+        NULLIF(task->>'dueDate', '')::DATE,
+        COALESCE(task->'people', '[]'::jsonb)
+    FROM jsonb_array_elements(p_tasks) AS task
+    WHERE NOT EXISTS (
+        SELECT 1 FROM recording_tasks existing
+        WHERE existing.recording_id = p_recording_id
+          AND lower(existing.text) = lower(task->>'text')
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as the caller, so the recording_tasks policies still apply
+GRANT EXECUTE ON FUNCTION replace_recording_tasks TO authenticated;
@@ -0,0 +1,9 @@
+-- transcription_overrides only applies to the run Re-transcribe starts, and is
+-- cleared when that run finishes so later runs (e.g. "Add to this recording")
+-- go back to the user settings. What the current transcript used is kept here
+-- for its entry in transcript_versions.
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS transcribed_with JSONB;
+
+COMMENT ON COLUMN recordings.transcribed_with IS 'Re-transcribe choices the current transcript was produced with; NULL when it used the user settings';
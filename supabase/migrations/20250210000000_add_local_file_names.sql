@@ -0,0 +1,10 @@
+-- Names of the audio files a recording was saved from on the recording device.
+-- Startup recovery checks these before re-importing files it has no local entry
+-- for, so audio that's already been uploaded isn't queued a second time.
+
+ALTER TABLE recordings
+ADD COLUMN IF NOT EXISTS local_file_names TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_recordings_local_file_names ON recordings USING GIN (local_file_names);
+
+COMMENT ON COLUMN recordings.local_file_names IS 'File names of the recording and its segments in the recording device''s recordings directory';
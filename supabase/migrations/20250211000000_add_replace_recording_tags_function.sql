@@ -0,0 +1,33 @@
+-- Swap in the tags processing gave a new transcript in one transaction, so a
+-- failure can't leave a recording with no tags. Tags not in the user's
+-- vocabulary yet are added to it, marked suggested when processing proposed them.
+CREATE OR REPLACE FUNCTION replace_recording_tags(
+    p_recording_id TEXT,
+    p_tags JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM recordings
+        WHERE id = p_recording_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Recording % not found', p_recording_id;
+    END IF;
+
+    INSERT INTO tags (user_id, name, suggested)
+    SELECT auth.uid(), tag->>'name', tag->>'source' = 'suggested'
+    FROM jsonb_array_elements(p_tags) AS tag
+    ON CONFLICT (user_id, name) DO NOTHING;
+
+    DELETE FROM recording_tags
+    WHERE recording_id = p_recording_id;
+
+    INSERT INTO recording_tags (recording_id, tag_id, user_id, source)
+    SELECT p_recording_id, tags.id, auth.uid(), tag->>'source'
+    FROM jsonb_array_elements(p_tags) AS tag
+    JOIN tags ON tags.user_id = auth.uid() AND tags.name = tag->>'name';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Runs as the caller, so the tags and recording_tags policies still apply
+GRANT EXECUTE ON FUNCTION replace_recording_tags TO authenticated;
@@ -18,6 +18,38 @@ export interface ProcessingError {
   timestamp: string;
 }
 
+// A timed span of transcript text, as returned by Whisper
+export interface TranscriptSegment {
+  start: number; // Seconds from the start of the recording
+  end: number;
+  text: string;
+  speaker?: string; // Stable id like "Speaker 1", set when the recording was diarized
+}
+
+// One stretch of audio attributed to a single speaker by the diarization provider
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  speaker: string;
+}
+
+// One rolling chunk of a segmented recording
+export interface RecordingSegment {
+  index: number;
+  duration: number;
+  fileUri?: string; // Local file, only present on the recording device
+  audioUrl?: string;
+  transcript?: string;
+  transcriptSegments?: TranscriptSegment[]; // Relative to the start of this chunk
+  continuation?: boolean; // First chunk of a clip added later with "Add to this recording"
+}
+
+// A bookmark dropped while recording
+export interface RecordingMarker {
+  offset: number; // Seconds from the start of the recording
+  label?: string;
+}
+
 export interface Recording {
   id: string;
   timestamp: Date;
@@ -25,7 +57,23 @@ export interface Recording {
   fileUri: string;
   transcript?: string;
   correctedTranscript?: string;
+  translatedTranscript?: string; // English translation, when translation was on
+  transcriptSegments?: TranscriptSegment[];
+  recipeOutputs?: RecipeOutput[];
+  summary?: string; // Set for recordings over the summary threshold
+  keyPoints?: string[];
+  tags?: string[]; // Names from recording_tags
   title?: string;
+  waveform?: number[]; // Downsampled 0..1 input levels for the card thumbnail
+  segments?: RecordingSegment[]; // Present when the recording was split into chunks
+  trimStart?: number; // Seconds of leading silence
+  trimEnd?: number; // Seconds from the start where trailing silence begins
+  markers?: RecordingMarker[];
+  captureTag?: string; // Passed by the secretary://record deep link that started it
+  language?: string; // ISO 639-1 code of the spoken language
+  speakerNames?: Record<string, string>; // Names given to diarized speakers, keyed by speaker id
+  promptTerms?: string[]; // Vocabulary hints the transcription provider was given
+  fileMissing?: boolean; // Set at startup when the local audio file no longer exists
   
   // New processing state fields
   processingState: ProcessingState;
@@ -34,6 +82,8 @@ export interface Recording {
   retryCount: number;
   nextRetryAt?: Date;
   uploadProgress: number;
+  transcriptionChunksDone?: number; // Set while an oversized file is transcribed in chunks
+  transcriptionChunksTotal?: number;
   transcriptionJobId?: string;
   lastStateChangeAt: Date;
   
@@ -45,9 +95,112 @@ export interface Recording {
   error?: string;
 }
 
+export type AudioQuality = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// Options for starting a capture, e.g. from the secretary://record deep link
+export interface CaptureOptions {
+  tag?: string;
+  maxDurationSeconds?: number; // Stop automatically after this much recording time
+  appendTo?: Recording; // Add the new clip to the end of this recording
+}
+
+// Recorder backends (expo-audio, web MediaRecorder, mock) all implement this
+export interface RecorderStatus {
+  durationMillis: number; // Time recorded so far, excluding pauses
+  metering?: number; // Input level in dBFS
+}
+
+export interface RecorderStartOptions {
+  quality: AudioQuality;
+  onStatus: (status: RecorderStatus) => void;
+  statusInterval: number;
+}
+
+export interface RecordedAudio {
+  uri: string;
+  durationMillis: number;
+}
+
+export interface Recorder {
+  requestPermissions(): Promise<boolean>;
+  start(options: RecorderStartOptions): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
+  stop(): Promise<RecordedAudio>;
+  getDurationAsync(uri: string): Promise<number>; // Whole seconds
+}
+
+// Per-recording choices for a re-transcription; unset fields use the user's settings
+export interface TranscriptionOverrides {
+  model?: string;
+  language?: string; // ISO 639-1 code, or 'auto'
+  useDictionary?: boolean; // false skips dictionary hints and corrections
+  translate?: boolean; // Also produce an English translation
+}
+
+// User-written post-processing step run on each corrected transcript
+export interface Recipe {
+  id: string;
+  name: string;
+  prompt: string;
+  outputSchema: Record<string, any>; // JSON Schema of the object the model must return
+  enabled: boolean; // Only enabled recipes run on new transcripts
+}
+
+export interface RecipeOutput {
+  recipeId: string;
+  name: string; // Recipe name when it ran
+  output?: Record<string, any>;
+  error?: string; // Set instead of output when the recipe failed
+}
+
+// Action item found in a transcript by process-transcript
+export interface ExtractedTask {
+  text: string;
+  dueDate?: string; // YYYY-MM-DD
+  people: string[];
+}
+
+export interface RecordingTask extends ExtractedTask {
+  id: string;
+  recordingId: string;
+  recordingTitle?: string;
+  completed: boolean;
+  createdAt: Date;
+}
+
+// How a tag came to be on a recording
+export type TagSource = 'auto' | 'suggested' | 'spoken';
+
+export interface AssignedTag {
+  name: string; // Lowercase, without a leading #
+  source: TagSource;
+}
+
+export interface Tag {
+  id: string;
+  name: string;
+  suggested: boolean; // Proposed by processing and not yet kept by the user
+}
+
+// Speech-to-text backend run by the transcribe-audio edge function
+export type TranscriptionProviderId = 'groq' | 'openai_compatible';
+
 export interface Settings {
   webhookUrl: string;
   dictionary: string[];
+  audioQuality: AudioQuality;
+  segmentMinutes: number; // 0 disables segmented recording
+  silenceTimeoutSeconds: number; // 0 disables auto-stop on silence
+  transcriptionLanguage: string; // ISO 639-1 code, or 'auto' to let the provider detect it
+  transcriptionProvider: TranscriptionProviderId;
+  transcriptionModel: string; // Empty uses the provider's default model
+  transcriptionBaseUrl: string; // Only used by openai_compatible
+  transcriptionApiKeySet: boolean; // The key itself is write-only, see userSettingsService.setTranscriptionApiKey
+  diarizationEnabled: boolean; // Label who said what after transcription
+  promptWithRecentTitles: boolean; // Add recent recording titles to the dictionary hints
+  translateToEnglish: boolean; // Also translate non-English transcripts into English
+  summaryMinSeconds: number; // Summarize recordings at least this long, 0 disables summaries
 }
 
 export interface QueueItem {
@@ -62,12 +215,55 @@ export interface WebhookPayload {
   timestamp: string;
   duration: number;
   transcript: string;
-  correctedTranscript: string;
+  correctedTranscript: string; // In the spoken language
+  translatedTranscript?: string; // English, when translation was on
   audioUrl?: string;
+  language?: string;
+  transcriptSegments?: TranscriptSegment[]; // speaker holds the display name
+  speakers?: string[];
+  recipeOutputs?: RecipeOutput[];
+  summary?: string;
+  keyPoints?: string[];
+  tasks?: WebhookTask[];
   metadata?: Record<string, any>;
 }
 
+export interface WebhookTask {
+  id: string;
+  text: string;
+  dueDate?: string; // YYYY-MM-DD
+  people: string[];
+  completed: boolean;
+}
+
 // Database types for Supabase
+
+// A transcript kept when the recording was transcribed again
+export interface DatabaseTranscriptVersion {
+  transcript?: string;
+  corrected_transcript?: string;
+  translated_transcript?: string;
+  title?: string;
+  language?: string;
+  transcript_segments?: TranscriptSegment[];
+  prompt_terms?: string[];
+  recipe_outputs?: RecipeOutput[];
+  summary?: string;
+  key_points?: string[];
+  overrides?: TranscriptionOverrides; // What the replaced transcript was produced with
+  replaced_at: string;
+}
+
+export interface DatabaseRecordingSegment {
+  index: number;
+  duration: number;
+  audio_url?: string;
+  transcript?: string;
+  transcript_segments?: TranscriptSegment[];
+  language?: string; // Detected for this chunk's transcript
+  continuation?: boolean;
+}
+
 export interface DatabaseRecording {
   id: string;
   user_id: string;
@@ -76,19 +272,73 @@ export interface DatabaseRecording {
   audio_url?: string;
   transcript?: string;
   corrected_transcript?: string;
+  translated_transcript?: string | null;
+  transcript_segments?: TranscriptSegment[];
+  recipe_outputs?: RecipeOutput[] | null;
+  summary?: string | null;
+  key_points?: string[] | null;
+  recording_tags?: { tags: { name: string } | null }[]; // Only when selected with the join
   title?: string;
+  waveform?: number[];
+  segments?: DatabaseRecordingSegment[];
+  trim_start?: number;
+  trim_end?: number;
+  markers?: RecordingMarker[];
+  capture_tag?: string;
+  local_file_names?: string[] | null;
+  language?: string;
+  speaker_names?: Record<string, string> | null;
+  prompt_terms?: string[] | null;
+  transcription_overrides?: TranscriptionOverrides | null; // For the pending run only
+  transcribed_with?: TranscriptionOverrides | null; // What the current transcript used
+  transcript_versions?: DatabaseTranscriptVersion[] | null;
   processing_state: ProcessingState;
   processing_step: number;
   processing_error?: ProcessingError;
   retry_count: number;
   next_retry_at?: string;
   upload_progress: number;
+  transcription_chunks_done?: number | null;
+  transcription_chunks_total?: number | null;
   transcription_job_id?: string;
   last_state_change_at: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface DatabaseRecipe {
+  id: string;
+  user_id: string;
+  name: string;
+  prompt: string;
+  output_schema: Record<string, any>;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DatabaseRecordingTask {
+  id: string;
+  recording_id: string;
+  user_id: string;
+  text: string;
+  due_date?: string | null;
+  people?: string[] | null;
+  completed: boolean;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  recordings?: { title?: string | null } | null; // Joined when listing tasks
+}
+
+export interface DatabaseTag {
+  id: string;
+  user_id: string;
+  name: string;
+  suggested: boolean;
+  created_at: string;
+}
+
 // Realtime event types
 export interface RealtimeRecordingEvent {
   eventType: 'INSERT' | 'UPDATE' | 'DELETE';
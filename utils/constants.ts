@@ -1,3 +1,5 @@
+import { Settings } from '@/types';
+
 export const STORAGE_KEYS = {
   SETTINGS: '@secretary_settings',
   RECORDINGS: '@secretary_recordings',
@@ -22,10 +24,137 @@ export const AUDIO_SETTINGS = {
   },
 } as const;
 
+// Audio formats accepted for recording, import and upload
+export const AUDIO_CONTENT_TYPES = {
+  m4a: 'audio/mp4',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+} as const;
+
+// Largest file transcribe-audio accepts; it splits anything over the provider's limit
+export const MAX_TRANSCRIPTION_FILE_BYTES = 100 * 1024 * 1024;
+// Largest file the provider takes in one request. transcribe-audio can't split
+// webm, so webm files (and web recordings) have to stay under this.
+export const PROVIDER_MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+// Input level metering
+export const METERING_INTERVAL = 100; // ms between level samples
+export const METERING_FLOOR_DB = -60; // dBFS treated as silence
+export const LIVE_WAVEFORM_BAR_COUNT = 40;
+export const WAVEFORM_THUMBNAIL_BAR_COUNT = 48;
+
+// Silence detection
+export const SILENCE_LEVEL_THRESHOLD = 0.1; // Normalized level (about -54 dBFS)
+export const SILENCE_TRIM_PADDING = 0.5; // Seconds of silence kept around speech
+export const SILENCE_TIMEOUT_OPTIONS = [0, 10, 30, 60, 120] as const;
+
+// Recordings at least this long get a summary and key points; 0 turns them off
+export const SUMMARY_MIN_SECONDS_OPTIONS = [0, 60, 120, 300, 600] as const;
+
+// Offered when long-pressing the mark button while recording
+export const MARKER_QUICK_LABELS = ['Important', 'Action item', 'Decision', 'Question'] as const;
+
 export const MAX_RETRY_COUNT = 3;
 export const RETRY_DELAY = 1000; // Base delay in ms, will be exponential
 
-export const DEFAULT_SETTINGS = {
+export const AUDIO_QUALITY_LABELS = {
+  LOW: 'Low',
+  MEDIUM: 'Medium',
+  HIGH: 'High',
+} as const;
+
+export const SEGMENT_MINUTE_OPTIONS = [0, 5, 10, 15, 30] as const;
+
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+export const TRANSCRIPTION_LANGUAGES = [
+  { code: AUTO_DETECT_LANGUAGE, label: 'Auto-detect' },
+  { code: 'en', label: 'English' },
+  { code: 'ar', label: 'Arabic' },
+  { code: 'fr', label: 'French' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'de', label: 'German' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'zh', label: 'Chinese' },
+] as const;
+
+export const TRANSCRIPTION_PROVIDERS = [
+  {
+    id: 'groq',
+    label: 'Groq',
+    defaultModel: 'whisper-large-v3-turbo',
+    models: ['whisper-large-v3-turbo', 'whisper-large-v3'],
+  },
+  {
+    id: 'openai_compatible',
+    label: 'OpenAI-compatible server',
+    defaultModel: 'whisper-1',
+    models: ['whisper-1'],
+  },
+] as const;
+
+// Starting points offered when adding a recipe in Settings
+export const RECIPE_TEMPLATES = [
+  {
+    name: 'Meeting Summary',
+    prompt: 'Summarize this meeting in a few sentences and list the action items, with who owns each one when it is mentioned.',
+    outputSchema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        actionItems: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { task: { type: 'string' }, owner: { type: 'string' } },
+            required: ['task'],
+          },
+        },
+      },
+      required: ['summary', 'actionItems'],
+    },
+  },
+  {
+    name: 'Email Draft',
+    prompt: 'Turn this voice note into a ready-to-send email in my voice. Keep it brief.',
+    outputSchema: {
+      type: 'object',
+      properties: {
+        subject: { type: 'string' },
+        body: { type: 'string' },
+      },
+      required: ['subject', 'body'],
+    },
+  },
+  {
+    name: 'Journal Entry',
+    prompt: 'Write this up as a first-person journal entry and note the overall mood.',
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entry: { type: 'string' },
+        mood: { type: 'string' },
+      },
+      required: ['entry'],
+    },
+  },
+];
+
+export const DEFAULT_SETTINGS: Settings = {
   webhookUrl: '',
   dictionary: [],
+  audioQuality: 'HIGH',
+  segmentMinutes: 0,
+  silenceTimeoutSeconds: 0,
+  transcriptionLanguage: 'en',
+  transcriptionProvider: 'groq',
+  transcriptionModel: '',
+  transcriptionBaseUrl: '',
+  transcriptionApiKeySet: false,
+  diarizationEnabled: false,
+  promptWithRecentTitles: false,
+  translateToEnglish: false,
+  summaryMinSeconds: 120,
 };
\ No newline at end of file
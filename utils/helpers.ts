@@ -1,16 +1,403 @@
-import { Recording } from '@/types';
+import { DatabaseRecordingSegment, RecordingSegment, SpeakerTurn, TranscriptSegment } from '@/types';
+import { AUDIO_CONTENT_TYPES, MAX_TRANSCRIPTION_FILE_BYTES, PROVIDER_MAX_FILE_BYTES } from '@/utils/constants';
 import * as Crypto from 'expo-crypto';
 
 export function generateRecordingId(): string {
   return Crypto.randomUUID();
 }
 
+export type AudioExtension = keyof typeof AUDIO_CONTENT_TYPES;
+
+// Read the audio extension from a file URI or name, ignoring any query string
+export function getAudioExtension(uriOrName: string): AudioExtension | null {
+  const match = uriOrName.split('?')[0].match(/\.([a-zA-Z0-9]+)$/);
+  const extension = match?.[1].toLowerCase();
+  return extension && extension in AUDIO_CONTENT_TYPES ? (extension as AudioExtension) : null;
+}
+
+export function getAudioFileType(uriOrName: string): { extension: AudioExtension; contentType: string } {
+  const extension = getAudioExtension(uriOrName) ?? 'm4a';
+  return { extension, contentType: AUDIO_CONTENT_TYPES[extension] };
+}
+
 export function formatDuration(seconds: number): string {
   const minutes = Math.floor(seconds / 60);
   const remainingSeconds = Math.floor(seconds % 60);
   return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Largest file of this format that can be transcribed. transcribe-audio splits
+// m4a, MP3 and WAV over the provider's limit, but webm has to fit in one request.
+export function getMaxTranscriptionBytes(extension: AudioExtension): number {
+  return extension === 'webm' ? PROVIDER_MAX_FILE_BYTES : MAX_TRANSCRIPTION_FILE_BYTES;
+}
+
+// Approximate encoded size of one minute of audio at the given bit rate
+export function estimateBytesPerMinute(bitRate: number): number {
+  return Math.round((bitRate / 8) * 60);
+}
+
+// Longest chunk that stays under maxBytes at this bit rate, with headroom
+// since encoders don't hold the bit rate exactly
+export function getMaxSegmentMillis(bitRate: number, maxBytes: number): number {
+  return Math.floor((maxBytes * 0.8) / estimateBytesPerMinute(bitRate)) * 60 * 1000;
+}
+
+// Map a metering reading in dBFS (-160..0) to a 0..1 level
+export function normalizeMetering(db: number, floorDb: number): number {
+  if (!Number.isFinite(db) || db <= floorDb) return 0;
+  return Math.min(1, (db - floorDb) / -floorDb);
+}
+
+// Reduce level samples to a fixed number of bars, keeping the peak of each bucket
+export function downsampleLevels(levels: number[], barCount: number): number[] {
+  if (levels.length <= barCount) return levels.map(level => Math.round(level * 100) / 100);
+
+  const bucketSize = levels.length / barCount;
+  const bars: number[] = [];
+  for (let i = 0; i < barCount; i++) {
+    const bucket = levels.slice(Math.floor(i * bucketSize), Math.floor((i + 1) * bucketSize));
+    bars.push(Math.round(Math.max(0, ...bucket) * 100) / 100);
+  }
+  return bars;
+}
+
+// Find where speech starts and ends in a recording's level samples, in seconds.
+// Returns null when nothing is worth trimming or no sample rises above the threshold.
+export function detectSilenceBounds(
+  levels: number[],
+  duration: number,
+  threshold: number,
+  padding: number
+): { trimStart: number; trimEnd: number } | null {
+  const first = levels.findIndex(level => level > threshold);
+  if (first === -1 || duration <= 0) return null;
+
+  let last = levels.length - 1;
+  while (last > first && levels[last] <= threshold) last--;
+
+  // Samples are evenly spaced, so map indexes onto the file's real duration
+  const secondsPerSample = duration / levels.length;
+  const trimStart = Math.max(0, first * secondsPerSample - padding);
+  const trimEnd = Math.min(duration, (last + 1) * secondsPerSample + padding);
+
+  if (trimStart === 0 && trimEnd === duration) return null;
+  return {
+    trimStart: Math.round(trimStart * 10) / 10,
+    trimEnd: Math.round(trimEnd * 10) / 10,
+  };
+}
+
+// The stored file keeps its silence; only the audio sent for transcription is
+// cut to the trim window, so until there's a transcript the full length is shown
+export function getTrimmedDuration(
+  recording: { duration: number; trimStart?: number; trimEnd?: number; transcript?: string }
+): number {
+  if (recording.trimStart === undefined || recording.trimEnd === undefined || !recording.transcript) {
+    return recording.duration;
+  }
+  return Math.max(0, recording.trimEnd - recording.trimStart);
+}
+
+export function getFileName(uri: string): string {
+  return uri.split('/').pop() || uri;
+}
+
+// Names of the audio files a recording keeps on this device, main file first.
+// Names rather than URIs, since the documents path can change between app updates.
+export function getLocalFileNames(recording: { fileUri?: string; segments?: RecordingSegment[] }): string[] {
+  const uris = [recording.fileUri, ...(recording.segments || []).map(segment => segment.fileUri)];
+  const names = uris
+    .filter((uri): uri is string => !!uri && !uri.startsWith('http') && !uri.startsWith('blob:'))
+    .map(getFileName);
+  return [...new Set(names)];
+}
+
+export function databaseSegmentsToSegments(
+  segments?: DatabaseRecordingSegment[] | null
+): RecordingSegment[] | undefined {
+  if (!segments || segments.length === 0) return undefined;
+
+  return segments.map(segment => ({
+    index: segment.index,
+    duration: segment.duration,
+    audioUrl: segment.audio_url,
+    transcript: segment.transcript,
+    transcriptSegments: segment.transcript_segments,
+    continuation: segment.continuation,
+  }));
+}
+
+// Shift each chunk's timestamps by the length of the chunks before it
+export function mergeTranscriptSegments(
+  chunks: { index: number; duration: number; transcript_segments?: TranscriptSegment[] }[]
+): TranscriptSegment[] {
+  let offset = 0;
+  return [...chunks]
+    .sort((a, b) => a.index - b.index)
+    .flatMap(chunk => {
+      const shifted = (chunk.transcript_segments || []).map(segment => ({
+        ...segment,
+        start: segment.start + offset,
+        end: segment.end + offset,
+      }));
+      offset += chunk.duration;
+      return shifted;
+    });
+}
+
+// Timed segments that overlap the trim window, for cutting leading and
+// trailing silence (and whatever Whisper hallucinated in it) from a transcript
+export function trimTranscriptSegments(
+  segments: TranscriptSegment[],
+  trimStart: number,
+  trimEnd: number
+): TranscriptSegment[] {
+  return segments.filter(segment => segment.end > trimStart && segment.start < trimEnd);
+}
+
+// Join chunk transcripts in recording order. Rolled chunks run on in one
+// paragraph; clips added later start a new one.
+export function stitchSegmentTranscripts(
+  segments: { index: number; transcript?: string; continuation?: boolean }[]
+): string {
+  return [...segments]
+    .sort((a, b) => a.index - b.index)
+    .filter(segment => segment.transcript?.trim())
+    .map((segment, i) => (i > 0 ? (segment.continuation ? '\n\n' : ' ') : '') + segment.transcript!.trim())
+    .join('');
+}
+
+// Find the text spoken at an offset. Uses the timed segment when there is one,
+// otherwise places the offset proportionally and widens it to the sentence.
+export function getTranscriptPassageAt(
+  transcript: string,
+  offset: number,
+  duration: number,
+  segments?: TranscriptSegment[]
+): { start: number; end: number } {
+  const timed = segments?.filter(segment => segment.start <= offset).pop();
+  if (timed) {
+    const start = transcript.indexOf(timed.text);
+    if (start !== -1) {
+      return { start, end: start + timed.text.length };
+    }
+  }
+
+  const position = duration > 0
+    ? Math.min(Math.floor((offset / duration) * transcript.length), transcript.length - 1)
+    : 0;
+  const sentencePattern = /[^.!?]+[.!?]*\s*/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = sentencePattern.exec(transcript)) !== null) {
+    const end = match.index + match[0].length;
+    if (position < end) {
+      return { start: match.index, end };
+    }
+  }
+
+  return { start: 0, end: transcript.length };
+}
+
+// Give each transcript segment the speaker whose turns overlap it the most
+export function assignSpeakers(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  return segments.map(segment => {
+    const overlaps = new Map<string, number>();
+    for (const turn of turns) {
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlaps.set(turn.speaker, (overlaps.get(turn.speaker) ?? 0) + overlap);
+      }
+    }
+
+    const [speaker] = [...overlaps.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    return speaker ? { ...segment, speaker } : segment;
+  });
+}
+
+// Turns within this many seconds of a split count as talking across it
+const SPLIT_TURN_GAP_SECONDS = 1;
+
+// Chunks of a split recording are diarized one by one, so each numbers its
+// speakers from 1 again. Shift the turns onto the recording's timeline, carry the
+// speaker who is talking across a split into the next chunk, and keep everyone
+// else apart as e.g. "Speaker 2 (part 3)" so the user can name them.
+export function mergeChunkSpeakerTurns(
+  chunks: { index: number; duration: number; continuation?: boolean; turns: SpeakerTurn[] }[]
+): SpeakerTurn[] {
+  const merged: SpeakerTurn[] = [];
+  let offset = 0;
+  let lastTurn: SpeakerTurn | undefined;
+
+  for (const [position, chunk] of [...chunks].sort((a, b) => a.index - b.index).entries()) {
+    const turns = [...chunk.turns].sort((a, b) => a.start - b.start);
+    const ids = new Map<string, string>();
+
+    // Clips added later were recorded separately, so nobody talks across their start
+    const firstTurn = turns[0];
+    if (lastTurn && firstTurn && !chunk.continuation
+      && offset - lastTurn.end <= SPLIT_TURN_GAP_SECONDS
+      && firstTurn.start <= SPLIT_TURN_GAP_SECONDS) {
+      ids.set(firstTurn.speaker, lastTurn.speaker);
+    }
+
+    for (const turn of turns) {
+      if (!ids.has(turn.speaker)) {
+        ids.set(turn.speaker, position === 0 ? turn.speaker : `${turn.speaker} (part ${position + 1})`);
+      }
+      merged.push({ start: turn.start + offset, end: turn.end + offset, speaker: ids.get(turn.speaker)! });
+    }
+
+    lastTurn = merged.slice(merged.length - turns.length).reduce<SpeakerTurn | undefined>(
+      (latest, turn) => (!latest || turn.end > latest.end ? turn : latest),
+      undefined
+    );
+    offset += chunk.duration;
+  }
+
+  return merged;
+}
+
+// Speaker ids in the order they first speak
+export function getSpeakers(segments?: TranscriptSegment[]): string[] {
+  return [...new Set((segments || []).map(segment => segment.speaker).filter((speaker): speaker is string => !!speaker))];
+}
+
+export function getSpeakerName(speaker: string, speakerNames?: Record<string, string>): string {
+  return speakerNames?.[speaker] || speaker;
+}
+
+function groupSpeakerParagraphs(segments: TranscriptSegment[]): { speaker?: string; texts: string[] }[] {
+  const paragraphs: { speaker?: string; texts: string[] }[] = [];
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(text);
+    } else {
+      paragraphs.push({ speaker: segment.speaker, texts: [text] });
+    }
+  }
+  return paragraphs;
+}
+
+// One "Name: text" paragraph per change of speaker
+export function formatSpeakerTranscript(
+  segments: TranscriptSegment[],
+  speakerNames?: Record<string, string>
+): string {
+  return groupSpeakerParagraphs(segments)
+    .map(({ speaker, texts }) =>
+      speaker ? `${getSpeakerName(speaker, speakerNames)}: ${texts.join(' ')}` : texts.join(' ')
+    )
+    .join('\n\n');
+}
+
+// Relabel the "Name: text" paragraphs of a corrected or translated transcript
+// after speakers are renamed. Paragraphs are matched to speakers by position,
+// using the timed segments, so two speakers with the same name stay apart.
+// Returns null when the paragraphs no longer line up with the segments.
+export function relabelSpeakerTranscript(
+  transcript: string,
+  segments: TranscriptSegment[],
+  oldNames: Record<string, string> | undefined,
+  newNames: Record<string, string> | undefined
+): string | null {
+  const speakers = groupSpeakerParagraphs(segments).map(paragraph => paragraph.speaker);
+  const paragraphs = transcript.split('\n\n');
+  if (paragraphs.length !== speakers.length) return null;
+
+  const relabeled: string[] = [];
+  for (const [index, paragraph] of paragraphs.entries()) {
+    const speaker = speakers[index];
+    if (!speaker) {
+      relabeled.push(paragraph);
+      continue;
+    }
+
+    const oldLabel = `${getSpeakerName(speaker, oldNames)}:`;
+    if (!paragraph.startsWith(oldLabel)) return null;
+    relabeled.push(`${getSpeakerName(speaker, newNames)}:${paragraph.slice(oldLabel.length)}`);
+  }
+  return relabeled.join('\n\n');
+}
+
+// Mirrors the check transcribe-audio makes before calling a user's own server:
+// https only, and not a local or private-network host. Returns why a URL is
+// rejected, or null when it's fine.
+export function getTranscriptionBaseUrlError(baseUrl: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return 'Enter a full URL, e.g. https://whisper.example.com/v1';
+  }
+
+  if (url.protocol !== 'https:') {
+    return 'The server URL must start with https://';
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const octets = hostname.split('.').map(Number);
+  const isIPv4 = octets.length === 4 && octets.every(octet => Number.isInteger(octet));
+  const [a, b] = octets;
+  const isPrivate = hostname === 'localhost'
+    || /\.(localhost|local|internal)$/.test(hostname)
+    || (isIPv4 && (
+      a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+    ))
+    || (hostname.includes(':') && (
+      hostname === '::' || hostname === '::1' || hostname.startsWith('::ffff:') || /^(f[cd]|fe[89ab])/.test(hostname)
+    ));
+
+  return isPrivate ? 'The server must be reachable on the public internet' : null;
+}
+
+// Tags are stored lowercase without the # people type or say, e.g. "#Side Project" -> "side-project"
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+// Names from a recording_tags(tags(name)) join. PostgREST returns the tag as an
+// object, but the untyped client infers an array, so accept both.
+export function databaseTagsToTags(
+  recordingTags?: { tags: { name: string } | { name: string }[] | null }[]
+): string[] | undefined {
+  if (!recordingTags) return undefined;
+  return recordingTags.flatMap(({ tags }) => [tags ?? []].flat().map(tag => tag.name)).sort();
+}
+
+// Readable text for a recipe's JSON output: "Key: value" lines, with arrays as bullets
+export function formatRecipeOutput(output: Record<string, any>): string {
+  const formatValue = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value !== 'object') return String(value);
+    if (Array.isArray(value)) return value.map(item => `• ${formatValue(item)}`).join('\n');
+    return Object.values(value).map(formatValue).filter(Boolean).join(' · ');
+  };
+
+  return Object.entries(output)
+    .map(([key, value]) => {
+      const label = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+      const text = formatValue(value);
+      return Array.isArray(value) ? `${label}:\n${text}` : `${label}: ${text}`;
+    })
+    .join('\n');
+}
+
 export function formatDate(date: Date): string {
   return new Intl.DateTimeFormat('en-US', {
     month: 'short',
@@ -20,6 +407,31 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+// Due dates are calendar days (YYYY-MM-DD), so compare them in local time
+export function formatDueDate(dueDate: string): { label: string; overdue: boolean } {
+  const [year, month, day] = dueDate.split('-').map(Number);
+  const due = new Date(year, month - 1, day);
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((due.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+
+  let label: string;
+  if (days === 0) {
+    label = 'Today';
+  } else if (days === 1) {
+    label = 'Tomorrow';
+  } else {
+    // The weekday is enough within the coming week
+    const withinWeek = days > 1 && days < 7;
+    label = new Intl.DateTimeFormat(
+      'en-US',
+      withinWeek ? { weekday: 'long' } : { month: 'short', day: 'numeric' }
+    ).format(due);
+  }
+
+  return { label, overdue: days < 0 };
+}
+
 export function getExponentialBackoffDelay(retryCount: number): number {
   return Math.min(1000 * Math.pow(2, retryCount), 30000); // Max 30 seconds
 }